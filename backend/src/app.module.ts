@@ -6,6 +6,14 @@ import { join } from 'path';
 import { databaseConfig } from './config/database.config';
 import { AuthModule } from './auth/auth.module';
 import { BlogModule } from './blog/blog.module';
+import { TagModule } from './tag/tag.module';
+import { CommentModule } from './comment/comment.module';
+import { ReactionModule } from './reaction/reaction.module';
+import { AttachmentModule } from './attachment/attachment.module';
+import { FeedModule } from './feed/feed.module';
+import { StatsModule } from './stats/stats.module';
+import { BookmarkModule } from './bookmark/bookmark.module';
+import { ModerationModule } from './moderation/moderation.module';
 import { NotificationModule } from './notification/notification.module';
 import { JwtModule, JwtService } from '@nestjs/jwt';
 import { AuthService } from './auth/auth.service';
@@ -102,6 +110,14 @@ async function handleSubscriptionConnect(
     }),
     AuthModule,
     BlogModule,
+    TagModule,
+    CommentModule,
+    ReactionModule,
+    AttachmentModule,
+    FeedModule,
+    StatsModule,
+    BookmarkModule,
+    ModerationModule,
     NotificationModule,
   ],
 })
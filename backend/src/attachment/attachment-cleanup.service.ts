@@ -0,0 +1,42 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { AttachmentService } from './attachment.service';
+
+@Injectable()
+export class AttachmentCleanupService implements OnModuleInit, OnModuleDestroy {
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL_MS = 60 * 60 * 1000; // Purge orphaned uploads hourly
+
+  constructor(private attachmentService: AttachmentService) {}
+
+  async onModuleInit() {
+    this.isRunning = true;
+    this.tick();
+  }
+
+  async onModuleDestroy() {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    if (!this.isRunning) {
+      return;
+    }
+
+    try {
+      await this.attachmentService.purgeOrphans();
+    } catch (error) {
+      console.error('Error purging orphaned attachments:', error);
+    } finally {
+      if (this.isRunning) {
+        this.timer = setTimeout(() => {
+          this.tick();
+        }, this.CHECK_INTERVAL_MS);
+      }
+    }
+  }
+}
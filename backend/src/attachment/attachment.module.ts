@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Attachment } from './entities/attachment.entity';
+import { Blog } from '../blog/entities/blog.entity';
+import { AttachmentService } from './attachment.service';
+import {
+  AttachmentResolver,
+  BlogAttachmentResolver,
+} from './attachment.resolver';
+import { AttachmentCleanupService } from './attachment-cleanup.service';
+import { AttachmentStorage } from './storage/attachment-storage';
+import { LocalDiskAttachmentStorage } from './storage/local-disk-attachment.storage';
+
+// BlogModule imports this module to link uploads on save, so it can't import BlogModule back
+@Module({
+  imports: [TypeOrmModule.forFeature([Attachment, Blog])],
+  providers: [
+    AttachmentService,
+    AttachmentResolver,
+    BlogAttachmentResolver,
+    AttachmentCleanupService,
+    { provide: AttachmentStorage, useClass: LocalDiskAttachmentStorage },
+  ],
+  exports: [AttachmentService],
+})
+export class AttachmentModule {}
@@ -0,0 +1,83 @@
+import {
+  Resolver,
+  Mutation,
+  Args,
+  ID,
+  Context,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { FileUpload, GraphQLUpload } from 'graphql-upload';
+import { AttachmentService } from './attachment.service';
+import { Attachment } from './entities/attachment.entity';
+import { Blog } from '../blog/entities/blog.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+import { getRequestLoader } from '../common/dataloader/request-loader.util';
+
+@Resolver(() => Attachment)
+export class AttachmentResolver {
+  constructor(private attachmentService: AttachmentService) {}
+
+  /**
+   * Multipart upload (GraphQL multipart request spec)
+   * The Upload scalar resolves to a promise; the argument is typed as FileUpload
+   * so the global ValidationPipe passes it through untouched
+   */
+  @Mutation(() => Attachment)
+  @UseGuards(JwtAuthGuard)
+  async uploadAttachment(
+    @Args('file', { type: () => GraphQLUpload }) file: FileUpload,
+    @Args('blogId', { type: () => ID, nullable: true }) blogId: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Attachment> {
+    return this.attachmentService.upload(
+      await file,
+      context.req.user,
+      blogId ?? undefined,
+    );
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard)
+  async deleteAttachment(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<boolean> {
+    return this.attachmentService.remove(id, context.req.user);
+  }
+
+  @ResolveField(() => String)
+  url(@Parent() attachment: Attachment): string {
+    return this.attachmentService.getUrl(attachment);
+  }
+
+  /**
+   * Downscaled WebP preview, only for images
+   */
+  @ResolveField(() => String, { nullable: true })
+  thumbnailUrl(@Parent() attachment: Attachment): string | null {
+    return this.attachmentService.getThumbnailUrl(attachment);
+  }
+}
+
+/**
+ * Adds the attachments field to Blog
+ */
+@Resolver(() => Blog)
+export class BlogAttachmentResolver {
+  constructor(private attachmentService: AttachmentService) {}
+
+  @ResolveField(() => [Attachment])
+  async attachments(
+    @Parent() blog: Blog,
+    @Context() context: object,
+  ): Promise<Attachment[]> {
+    return getRequestLoader<string, Attachment[]>(
+      context,
+      'blogAttachments',
+      (blogIds) => this.attachmentService.findForBlogs(blogIds),
+    ).load(blog.id);
+  }
+}
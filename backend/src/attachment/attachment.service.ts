@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThan, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { FileUpload } from 'graphql-upload';
+import * as sharp from 'sharp';
+import { Attachment } from './entities/attachment.entity';
+import { AttachmentStorage } from './storage/attachment-storage';
+import {
+  ALLOWED_FILE_TYPES,
+  detectMimeType,
+  sanitizeFilename,
+} from './utils/file-type.util';
+import { attachmentConfig } from '../config/attachment.config';
+import { readUpload } from '../common/upload/read-upload.util';
+import { Blog } from '../blog/entities/blog.entity';
+import { User } from '../auth/entities/user.entity';
+
+// Uploads that never made it into a post are removed after a day
+const ORPHAN_TTL_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class AttachmentService {
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentRepository: Repository<Attachment>,
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    private storage: AttachmentStorage,
+  ) {}
+
+  /**
+   * Validates and stores an uploaded file; images also get a WebP thumbnail
+   * Without blogId the upload stays unattached until the post is saved with its id
+   */
+  async upload(
+    file: FileUpload,
+    user: User,
+    blogId?: string,
+  ): Promise<Attachment> {
+    if (blogId) {
+      await this.assertBlogAuthor(blogId, user);
+    }
+
+    const data = await readUpload(
+      file.createReadStream(),
+      attachmentConfig.maxFileSize,
+    );
+
+    const mimeType = detectMimeType(data);
+    if (!mimeType) {
+      throw new BadRequestException(
+        'Unsupported file type - upload a PNG, JPEG, GIF or WebP image or a PDF',
+      );
+    }
+
+    const id = randomUUID();
+    const attachment = this.attachmentRepository.create({
+      id,
+      blogId: blogId ?? null,
+      uploaderId: user.id,
+      filename: sanitizeFilename(file.filename),
+      mimeType,
+      size: data.length,
+      width: null,
+      height: null,
+      storageKey: `${id}${ALLOWED_FILE_TYPES[mimeType]}`,
+      thumbnailKey: null,
+    });
+
+    let thumbnail: Buffer | null = null;
+    if (mimeType.startsWith('image/')) {
+      try {
+        const metadata = await sharp(data).metadata();
+        attachment.width = metadata.width ?? null;
+        attachment.height = metadata.height ?? null;
+        thumbnail = await sharp(data)
+          .rotate()
+          .resize(
+            attachmentConfig.thumbnailSize,
+            attachmentConfig.thumbnailSize,
+            {
+              fit: 'inside',
+              withoutEnlargement: true,
+            },
+          )
+          .webp({ quality: 80 })
+          .toBuffer();
+        attachment.thumbnailKey = `${id}.thumb.webp`;
+      } catch (error) {
+        throw new BadRequestException('Image could not be read');
+      }
+    }
+
+    await this.storage.put(attachment.storageKey, data, mimeType);
+    if (thumbnail) {
+      await this.storage.put(attachment.thumbnailKey, thumbnail, 'image/webp');
+    }
+
+    return this.attachmentRepository.save(attachment);
+  }
+
+  /**
+   * Links the user's unattached uploads to a post they just saved
+   * Ids of other users' files or of files already in another post are ignored
+   */
+  async attachToBlog(ids: string[], blog: Blog, user: User): Promise<void> {
+    if (!ids.length) {
+      return;
+    }
+
+    await this.attachmentRepository.update(
+      { id: In(ids), uploaderId: user.id, blogId: IsNull() },
+      { blogId: blog.id },
+    );
+  }
+
+  async findForBlogs(blogIds: readonly string[]): Promise<Attachment[][]> {
+    const attachments = await this.attachmentRepository.find({
+      where: { blogId: In([...blogIds]) },
+      order: { createdAt: 'ASC' },
+    });
+
+    return blogIds.map((blogId) =>
+      attachments.filter((attachment) => attachment.blogId === blogId),
+    );
+  }
+
+  async remove(id: string, user: User): Promise<boolean> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    if (attachment.uploaderId !== user.id) {
+      throw new UnauthorizedException(
+        'You can only delete your own attachments',
+      );
+    }
+
+    await this.removeFiles([attachment]);
+    await this.attachmentRepository.remove(attachment);
+    return true;
+  }
+
+  /**
+   * Deletes the stored files of a post that is about to be deleted
+   * The rows themselves go with the post (ON DELETE CASCADE)
+   */
+  async removeFilesForBlog(blogId: string): Promise<void> {
+    const attachments = await this.attachmentRepository.find({
+      where: { blogId },
+    });
+    await this.removeFiles(attachments);
+  }
+
+  /**
+   * Removes uploads that were never attached to a post, e.g. from abandoned drafts
+   */
+  async purgeOrphans(): Promise<number> {
+    const orphans = await this.attachmentRepository.find({
+      where: {
+        blogId: IsNull(),
+        createdAt: LessThan(new Date(Date.now() - ORPHAN_TTL_MS)),
+      },
+    });
+
+    await this.removeFiles(orphans);
+    await this.attachmentRepository.remove(orphans);
+    return orphans.length;
+  }
+
+  getUrl(attachment: Attachment): string {
+    return this.storage.getUrl(attachment.storageKey);
+  }
+
+  getThumbnailUrl(attachment: Attachment): string | null {
+    return attachment.thumbnailKey
+      ? this.storage.getUrl(attachment.thumbnailKey)
+      : null;
+  }
+
+  private async removeFiles(attachments: Attachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      await this.storage.delete(attachment.storageKey);
+      if (attachment.thumbnailKey) {
+        await this.storage.delete(attachment.thumbnailKey);
+      }
+    }
+  }
+
+  private async assertBlogAuthor(blogId: string, user: User): Promise<void> {
+    const blog = await this.blogRepository.findOne({ where: { id: blogId } });
+
+    if (!blog) {
+      throw new NotFoundException(`Blog with ID ${blogId} not found`);
+    }
+
+    if (blog.authorId !== user.id) {
+      throw new UnauthorizedException(
+        'You can only add attachments to your own blogs',
+      );
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * An uploaded image or file
+ * Uploads start unattached (blogId null) while the post is being written and are
+ * linked when the post is saved; url and thumbnailUrl come from AttachmentResolver
+ */
+@ObjectType()
+@Entity('attachments')
+export class Attachment {
+  // Assigned before upload so the stored file name matches the row
+  @Field(() => ID)
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Field(() => ID, { nullable: true })
+  @Index()
+  @Column({ nullable: true })
+  blogId: string | null;
+
+  @ManyToOne(() => Blog, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog | null;
+
+  @Column()
+  uploaderId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'uploaderId' })
+  uploader: User;
+
+  /**
+   * Original file name, for display and downloads
+   */
+  @Field()
+  @Column()
+  filename: string;
+
+  /**
+   * Detected from the file contents, not taken from the client
+   */
+  @Field()
+  @Column()
+  mimeType: string;
+
+  @Field(() => Int)
+  @Column({ type: 'int' })
+  size: number;
+
+  @Field(() => Int, { nullable: true })
+  @Column({ type: 'int', nullable: true })
+  width: number | null;
+
+  @Field(() => Int, { nullable: true })
+  @Column({ type: 'int', nullable: true })
+  height: number | null;
+
+  @Column()
+  storageKey: string;
+
+  @Column({ nullable: true })
+  thumbnailKey: string | null;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,18 @@
+/**
+ * Where attachment files live
+ * Registered as a Nest provider token: swap the implementation in AttachmentModule
+ * (e.g. for S3) without touching AttachmentService
+ */
+export abstract class AttachmentStorage {
+  abstract put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Removing a missing file is not an error
+   */
+  abstract delete(key: string): Promise<void>;
+
+  /**
+   * Public URL the browser loads the file from
+   */
+  abstract getUrl(key: string): string;
+}
@@ -0,0 +1,62 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import * as express from 'express';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { AttachmentStorage } from './attachment-storage';
+import { attachmentConfig } from '../../config/attachment.config';
+
+/**
+ * Default storage: files on local disk, served by this server under /uploads
+ */
+@Injectable()
+export class LocalDiskAttachmentStorage
+  extends AttachmentStorage
+  implements OnModuleInit
+{
+  constructor(private httpAdapterHost: HttpAdapterHost) {
+    super();
+  }
+
+  async onModuleInit() {
+    await mkdir(attachmentConfig.storageDir, { recursive: true });
+
+    // Keys are unique per upload, so files can be cached forever
+    this.httpAdapterHost.httpAdapter?.use(
+      attachmentConfig.publicPath,
+      express.static(attachmentConfig.storageDir, {
+        index: false,
+        immutable: true,
+        maxAge: '365d',
+        setHeaders: (res) => {
+          res.setHeader('X-Content-Type-Options', 'nosniff');
+        },
+      }),
+    );
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await writeFile(this.resolvePath(key), data);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolvePath(key));
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${attachmentConfig.publicUrl}${
+      attachmentConfig.publicPath
+    }/${encodeURIComponent(key)}`;
+  }
+
+  // Keys are generated server-side, but never let one point outside the storage dir
+  private resolvePath(key: string): string {
+    return join(attachmentConfig.storageDir, basename(key));
+  }
+}
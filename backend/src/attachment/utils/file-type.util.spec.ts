@@ -0,0 +1,28 @@
+import { detectMimeType, sanitizeFilename } from './file-type.util';
+
+describe('detectMimeType', () => {
+  it('recognizes allowed types by their magic bytes', () => {
+    expect(
+      detectMimeType(
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]),
+      ),
+    ).toBe('image/png');
+    expect(detectMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe(
+      'image/webp',
+    );
+    expect(detectMimeType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+  });
+
+  it('rejects anything else, whatever it claims to be', () => {
+    expect(detectMimeType(Buffer.from('<svg onload="alert(1)">'))).toBeNull();
+    expect(detectMimeType(Buffer.from([0xff, 0xd8]))).toBeNull();
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('drops directories and control characters', () => {
+    expect(sanitizeFilename('../../etc/pass\nwd')).toBe('passwd');
+    expect(sanitizeFilename('C:\\photos\\cat.png')).toBe('cat.png');
+    expect(sanitizeFilename('')).toBe('file');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * File types accepted as attachments, with the extension used for stored files
+ * SVG is deliberately missing: it can carry scripts
+ */
+export const ALLOWED_FILE_TYPES: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+};
+
+const startsWith = (data: Buffer, signature: number[] | string, offset = 0) => {
+  const bytes =
+    typeof signature === 'string' ? Buffer.from(signature, 'ascii') : signature;
+  return (
+    data.length >= offset + bytes.length &&
+    [...bytes].every((byte, index) => data[offset + index] === byte)
+  );
+};
+
+/**
+ * Detects the MIME type from the file's magic bytes (the client-sent type can't be trusted)
+ * Returns null for anything not in ALLOWED_FILE_TYPES
+ */
+export const detectMimeType = (data: Buffer): string | null => {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a')) {
+    return 'image/gif';
+  }
+  if (startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8)) {
+    return 'image/webp';
+  }
+  if (startsWith(data, '%PDF-')) {
+    return 'application/pdf';
+  }
+  return null;
+};
+
+/**
+ * Keeps only the base name of a client-supplied file name, without control characters
+ */
+export const sanitizeFilename = (filename: string): string => {
+  const name = (filename || '')
+    .split(/[\\/]/)
+    .pop()
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .trim();
+  return name.slice(0, 255) || 'file';
+};
@@ -81,5 +81,58 @@ export class AuthResolver {
       lastSeenMarkerVersion: userState.lastSeenMarkerVersion,
     };
   }
+
+  @Mutation(() => NotificationMarker)
+  @UseGuards(JwtAuthGuard)
+  async markNotificationRead(
+    @Args('markerVersion', { type: () => Int }) markerVersion: number,
+    @Context() context: { req: { user: User } },
+  ): Promise<NotificationMarker> {
+    return this.notificationService.setRead(
+      context.req.user,
+      markerVersion,
+      true,
+    );
+  }
+
+  @Mutation(() => NotificationMarker)
+  @UseGuards(JwtAuthGuard)
+  async markNotificationUnread(
+    @Args('markerVersion', { type: () => Int }) markerVersion: number,
+    @Context() context: { req: { user: User } },
+  ): Promise<NotificationMarker> {
+    return this.notificationService.setRead(
+      context.req.user,
+      markerVersion,
+      false,
+    );
+  }
+
+  @Mutation(() => NotificationMarker)
+  @UseGuards(JwtAuthGuard)
+  async archiveNotification(
+    @Args('markerVersion', { type: () => Int }) markerVersion: number,
+    @Context() context: { req: { user: User } },
+  ): Promise<NotificationMarker> {
+    return this.notificationService.archive(context.req.user, markerVersion);
+  }
+
+  @Mutation(() => UnreadCountResponse)
+  @UseGuards(JwtAuthGuard)
+  async markAllRead(
+    @Context() context: { req: { user: User } },
+  ): Promise<UnreadCountResponse> {
+    const userState = await this.notificationService.markAllRead(
+      context.req.user,
+    );
+    const count = await this.notificationService.getUnreadCount(
+      context.req.user,
+    );
+
+    return {
+      count,
+      lastSeenMarkerVersion: userState.lastSeenMarkerVersion,
+    };
+  }
 }
 
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../entities/user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Minimum role needed for a resolver; enforced by RolesGuard
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
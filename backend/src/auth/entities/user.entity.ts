@@ -6,9 +6,18 @@ import {
   UpdateDateColumn,
   OneToMany,
 } from 'typeorm';
-import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
 import { Blog } from '../../blog/entities/blog.entity';
 
+// Each role includes the ones before it (an admin is also a moderator)
+export enum UserRole {
+  USER = 'USER',
+  MODERATOR = 'MODERATOR',
+  ADMIN = 'ADMIN',
+}
+
+registerEnumType(UserRole, { name: 'UserRole' });
+
 @ObjectType()
 @Entity('users')
 export class User {
@@ -27,6 +36,13 @@ export class User {
   @Column()
   username: string;
 
+  /**
+   * Not assignable through the API; staff are promoted directly in the database
+   */
+  @Field(() => UserRole)
+  @Column({ type: 'enum', enum: UserRole, default: UserRole.USER })
+  role: UserRole;
+
   @Field()
   @CreateDateColumn()
   createdAt: Date;
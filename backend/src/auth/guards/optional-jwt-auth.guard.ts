@@ -0,0 +1,19 @@
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Like JwtAuthGuard, but lets anonymous requests through
+ * req.user is set when a valid token is present and left empty otherwise
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  getRequest(context: ExecutionContext) {
+    const ctx = GqlExecutionContext.create(context);
+    return ctx.getContext().req;
+  }
+
+  handleRequest(err: any, user: any) {
+    return user || null;
+  }
+}
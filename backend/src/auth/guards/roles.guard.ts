@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { User, UserRole } from '../entities/user.entity';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.USER]: 0,
+  [UserRole.MODERATOR]: 1,
+  [UserRole.ADMIN]: 2,
+};
+
+export const hasRole = (user: User | null | undefined, role: UserRole) =>
+  !!user && ROLE_RANK[user.role ?? UserRole.USER] >= ROLE_RANK[role];
+
+/**
+ * Checks the @Roles() of a resolver against req.user
+ * Runs after JwtAuthGuard: @UseGuards(JwtAuthGuard, RolesGuard)
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles?.length) {
+      return true;
+    }
+
+    const user: User =
+      GqlExecutionContext.create(context).getContext().req?.user;
+    if (!roles.some((role) => hasRole(user, role))) {
+      throw new ForbiddenException('You do not have access to this');
+    }
+
+    return true;
+  }
+}
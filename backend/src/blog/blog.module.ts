@@ -3,11 +3,81 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BlogService } from './blog.service';
 import { BlogResolver } from './blog.resolver';
 import { Blog } from './entities/blog.entity';
+import { BlogRevision } from './entities/blog-revision.entity';
+import { BlogSlugRedirect } from './entities/blog-slug-redirect.entity';
+import { BlogSearchService } from './search/blog-search.service';
+import { BlogPublishSchedulerService } from './scheduler/blog-publish-scheduler.service';
+import { BlogTrashPurgeService } from './scheduler/blog-trash-purge.service';
+import { BlogRevisionService } from './revisions/blog-revision.service';
+import { BlogRevisionResolver } from './revisions/blog-revision.resolver';
+import { TagModule } from '../tag/tag.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { BlogMarkdownService } from './markdown/blog-markdown.service';
+import { BlogSlugService } from './slugs/blog-slug.service';
+import { BlogTransferService } from './transfer/blog-transfer.service';
+import { BlogTransferResolver } from './transfer/blog-transfer.resolver';
+import { ScreeningRules } from './entities/screening-rules.entity';
+import { BlogScreeningService } from './screening/blog-screening.service';
+import { BlogScreeningResolver } from './screening/blog-screening.resolver';
+import { SCREENING_STEPS } from './screening/screening-step';
+import { PostingRateStep } from './screening/steps/posting-rate.step';
+import { BannedWordsStep } from './screening/steps/banned-words.step';
+import { LinkLimitStep } from './screening/steps/link-limit.step';
+import { DuplicateContentStep } from './screening/steps/duplicate-content.step';
+import { RelatedPost } from './entities/related-post.entity';
+import { BlogRelatedService } from './related/blog-related.service';
+import { BlogRelatedResolver } from './related/blog-related.resolver';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Blog])],
-  providers: [BlogService, BlogResolver],
-  exports: [BlogService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Blog,
+      BlogRevision,
+      BlogSlugRedirect,
+      ScreeningRules,
+      RelatedPost,
+    ]),
+    TagModule,
+    AttachmentModule,
+  ],
+  providers: [
+    BlogService,
+    BlogResolver,
+    BlogSearchService,
+    BlogPublishSchedulerService,
+    BlogTrashPurgeService,
+    BlogRevisionService,
+    BlogRevisionResolver,
+    BlogMarkdownService,
+    BlogSlugService,
+    BlogTransferService,
+    BlogTransferResolver,
+    BlogScreeningService,
+    BlogScreeningResolver,
+    PostingRateStep,
+    BannedWordsStep,
+    LinkLimitStep,
+    DuplicateContentStep,
+    BlogRelatedService,
+    BlogRelatedResolver,
+    // Screening order: cheap checks that reject outright go first
+    {
+      provide: SCREENING_STEPS,
+      useFactory: (...steps) => steps,
+      inject: [
+        PostingRateStep,
+        BannedWordsStep,
+        LinkLimitStep,
+        DuplicateContentStep,
+      ],
+    },
+  ],
+  exports: [
+    BlogService,
+    BlogMarkdownService,
+    BlogRelatedService,
+    BlogRevisionService,
+  ],
 })
 export class BlogModule {}
 
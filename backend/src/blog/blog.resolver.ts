@@ -4,19 +4,41 @@ import {
   Mutation,
   Args,
   ID,
+  Int,
   Context,
+  ResolveField,
+  Parent,
 } from '@nestjs/graphql';
 import { UseGuards } from '@nestjs/common';
 import { BlogService } from './blog.service';
 import { Blog } from './entities/blog.entity';
 import { CreateBlogInput } from './dto/create-blog.input';
 import { UpdateBlogInput } from './dto/update-blog.input';
+import { BlogFilterInput } from './dto/blog-filter.input';
+import { BlogOrderInput } from './dto/blog-order.input';
+import { BlogConnection } from './dto/blog-connection.response';
+import { BlogSearchConnection } from './dto/blog-search.response';
+import { BlogPermalink } from './dto/blog-permalink.response';
+import { BlogSearchService } from './search/blog-search.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { User } from '../auth/entities/user.entity';
+import { Tag } from '../tag/entities/tag.entity';
+import { TagService } from '../tag/tag.service';
+import { getRequestLoader } from '../common/dataloader/request-loader.util';
+import {
+  BlogMarkdownService,
+  DEFAULT_EXCERPT_LENGTH,
+} from './markdown/blog-markdown.service';
 
 @Resolver(() => Blog)
 export class BlogResolver {
-  constructor(private blogService: BlogService) {}
+  constructor(
+    private blogService: BlogService,
+    private blogSearchService: BlogSearchService,
+    private tagService: TagService,
+    private blogMarkdownService: BlogMarkdownService,
+  ) {}
 
   @Mutation(() => Blog)
   @UseGuards(JwtAuthGuard)
@@ -28,13 +50,96 @@ export class BlogResolver {
   }
 
   @Query(() => [Blog])
-  async blogs(): Promise<Blog[]> {
-    return this.blogService.findAll();
+  @UseGuards(OptionalJwtAuthGuard)
+  async blogs(@Context() context: { req: { user?: User } }): Promise<Blog[]> {
+    return this.blogService.findAll(context.req.user);
+  }
+
+  @Query(() => BlogConnection)
+  @UseGuards(OptionalJwtAuthGuard)
+  async blogsConnection(
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('filter', { type: () => BlogFilterInput, nullable: true })
+    filter?: BlogFilterInput,
+    @Args('orderBy', { type: () => BlogOrderInput, nullable: true })
+    orderBy?: BlogOrderInput,
+    @Context() context?: { req: { user?: User } },
+  ): Promise<BlogConnection> {
+    return this.blogService.findConnection(
+      first,
+      after,
+      filter,
+      orderBy,
+      context.req.user,
+    );
+  }
+
+  @Query(() => BlogConnection)
+  @UseGuards(OptionalJwtAuthGuard)
+  async blogsByTag(
+    @Args('tag') tag: string,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('orderBy', { type: () => BlogOrderInput, nullable: true })
+    orderBy?: BlogOrderInput,
+    @Context() context?: { req: { user?: User } },
+  ): Promise<BlogConnection> {
+    return this.blogService.findConnection(
+      first,
+      after,
+      { tag },
+      orderBy,
+      context.req.user,
+    );
+  }
+
+  @Query(() => BlogSearchConnection)
+  @UseGuards(OptionalJwtAuthGuard)
+  async searchBlogs(
+    @Args('query') query: string,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Context() context?: { req: { user?: User } },
+  ): Promise<BlogSearchConnection> {
+    return this.blogSearchService.search(query, first, after, context.req.user);
   }
 
   @Query(() => Blog)
-  async blog(@Args('id', { type: () => ID }) id: string): Promise<Blog> {
-    return this.blogService.findOne(id);
+  @UseGuards(OptionalJwtAuthGuard)
+  async blog(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: { req: { user?: User } },
+  ): Promise<Blog> {
+    return this.blogService.findVisible(id, context.req.user);
+  }
+
+  @Query(() => BlogPermalink)
+  @UseGuards(OptionalJwtAuthGuard)
+  async blogBySlug(
+    @Args('slug') slug: string,
+    @Context() context: { req: { user?: User } },
+  ): Promise<BlogPermalink> {
+    return this.blogService.findVisibleBySlug(slug, context.req.user);
+  }
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async publishBlog(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.blogService.publish(id, context.req.user);
+  }
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async scheduleBlog(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('publishAt') publishAt: Date,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.blogService.schedule(id, publishAt, context.req.user);
   }
 
   @Mutation(() => Blog)
@@ -47,6 +152,52 @@ export class BlogResolver {
     return this.blogService.update(id, updateBlogInput, context.req.user);
   }
 
+  @ResolveField(() => [Tag])
+  async tags(@Parent() blog: Blog, @Context() context: object): Promise<Tag[]> {
+    return getRequestLoader<string, Tag[]>(context, 'blogTags', (blogIds) =>
+      this.tagService.loadForBlogs(blogIds),
+    ).load(blog.id);
+  }
+
+  /**
+   * Content rendered from Markdown (GFM) and sanitized - safe to inject as HTML
+   */
+  @ResolveField(() => String)
+  contentHtml(@Parent() blog: Blog): string {
+    return this.blogMarkdownService.renderHtml(blog);
+  }
+
+  /**
+   * Plain-text preview of the content, cut at a word boundary
+   */
+  @ResolveField(() => String)
+  excerpt(
+    @Parent() blog: Blog,
+    @Args('length', {
+      type: () => Int,
+      defaultValue: DEFAULT_EXCERPT_LENGTH,
+    })
+    length: number,
+  ): string {
+    return this.blogMarkdownService.excerpt(blog, length);
+  }
+
+  @ResolveField(() => Int)
+  wordCount(@Parent() blog: Blog): number {
+    return this.blogMarkdownService.wordCount(blog);
+  }
+
+  /**
+   * Estimated minutes to read the post, at least 1
+   */
+  @ResolveField(() => Int)
+  readingTimeMinutes(@Parent() blog: Blog): number {
+    return this.blogMarkdownService.readingTimeMinutes(blog);
+  }
+
+  /**
+   * Moves the blog to the trash (see myTrash / restoreBlog)
+   */
   @Mutation(() => Boolean)
   @UseGuards(JwtAuthGuard)
   async deleteBlog(
@@ -55,5 +206,20 @@ export class BlogResolver {
   ): Promise<boolean> {
     return this.blogService.remove(id, context.req.user);
   }
+
+  @Query(() => [Blog])
+  @UseGuards(JwtAuthGuard)
+  async myTrash(@Context() context: { req: { user: User } }): Promise<Blog[]> {
+    return this.blogService.findTrash(context.req.user);
+  }
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async restoreBlog(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.blogService.restore(id, context.req.user);
+  }
 }
 
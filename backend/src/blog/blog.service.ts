@@ -1,11 +1,68 @@
-import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Blog } from './entities/blog.entity';
+import { IsNull, LessThan, Not, Repository, SelectQueryBuilder } from 'typeorm';
+import { Blog, BlogStatus } from './entities/blog.entity';
 import { CreateBlogInput } from './dto/create-blog.input';
 import { UpdateBlogInput } from './dto/update-blog.input';
+import { BlogFilterInput } from './dto/blog-filter.input';
+import {
+  BlogOrderField,
+  BlogOrderInput,
+  OrderDirection,
+} from './dto/blog-order.input';
+import { BlogConnection } from './dto/blog-connection.response';
+import {
+  decodeCursor,
+  decodeDateCursor,
+  encodeCursor,
+  normalizePageSize,
+} from '../common/pagination/cursor.util';
 import { User } from '../auth/entities/user.entity';
 import { NotificationQueueService } from '../notification/queue/notification-queue.service';
+import { BlogRevisionService } from './revisions/blog-revision.service';
+import { TagService } from '../tag/tag.service';
+import { normalizeTagName } from '../tag/utils/tag-name.util';
+import { BlogSlugService } from './slugs/blog-slug.service';
+import { BlogPermalink } from './dto/blog-permalink.response';
+import { AttachmentService } from '../attachment/attachment.service';
+import { BlogVersionConflictException } from './exceptions/blog-version-conflict.exception';
+import {
+  applyBlogVisibility,
+  isBlogPublic,
+  isBlogVisibleTo,
+} from './utils/blog-visibility.util';
+import { BlogScreeningService } from './screening/blog-screening.service';
+import { ScreeningSource } from './screening/screening-step';
+import { ScreeningDecision } from './entities/screening-rules.entity';
+import { BlogRejectedException } from './exceptions/blog-rejected.exception';
+
+// Sort expressions for each orderable field
+// Timestamps are truncated to milliseconds so they round-trip through JS Dates in cursors
+const ORDER_EXPRESSIONS: Record<BlogOrderField, string> = {
+  [BlogOrderField.CREATED_AT]: "date_trunc('milliseconds', blog.createdAt)",
+  [BlogOrderField.UPDATED_AT]: "date_trunc('milliseconds', blog.updatedAt)",
+  [BlogOrderField.PUBLISHED_AT]:
+    "date_trunc('milliseconds', COALESCE(blog.publishAt, blog.createdAt))",
+  [BlogOrderField.TITLE]: 'blog.title',
+};
+
+/**
+ * Original dates of an imported post (see BlogTransferService)
+ * A post published on an earlier date is created as published then, without notifying anyone
+ */
+export interface BlogBackdate {
+  createdAt?: Date;
+  publishedAt?: Date;
+}
+
+// How long deleted posts stay restorable before they are purged for good
+const TRASH_RETENTION_DAYS =
+  parseInt(process.env.BLOG_TRASH_RETENTION_DAYS || '') || 30;
 
 @Injectable()
 export class BlogService {
@@ -13,16 +70,68 @@ export class BlogService {
     @InjectRepository(Blog)
     private blogRepository: Repository<Blog>,
     private notificationQueue: NotificationQueueService,
+    private revisionService: BlogRevisionService,
+    private tagService: TagService,
+    private slugService: BlogSlugService,
+    private attachmentService: AttachmentService,
+    private screeningService: BlogScreeningService,
   ) {}
 
-  async create(createBlogInput: CreateBlogInput, author: User): Promise<Blog> {
+  async create(
+    createBlogInput: CreateBlogInput,
+    author: User,
+    backdate: BlogBackdate = {},
+    source = ScreeningSource.EDITOR,
+  ): Promise<Blog> {
+    const {
+      status = BlogStatus.PUBLISHED,
+      publishAt,
+      tags = [],
+      attachmentIds = [],
+      ...fields
+    } = createBlogInput;
+
+    if (status === BlogStatus.SCHEDULED) {
+      this.assertFuturePublishAt(publishAt);
+    }
+
+    const verdict = await this.screeningService.screen({
+      title: fields.title,
+      content: fields.content,
+      authorId: author.id,
+      source,
+    });
+    if (verdict.decision === ScreeningDecision.REJECT) {
+      throw new BlogRejectedException(verdict.reason, verdict.step);
+    }
+    const isHeld = verdict.decision === ScreeningDecision.HOLD;
+
+    const isBackdated =
+      status === BlogStatus.PUBLISHED &&
+      backdate.publishedAt?.getTime() <= Date.now();
+
     const blog = this.blogRepository.create({
-      ...createBlogInput,
+      ...fields,
+      status,
+      publishAt:
+        status === BlogStatus.PUBLISHED
+          ? isBackdated
+            ? backdate.publishedAt
+            : new Date()
+          : status === BlogStatus.SCHEDULED
+          ? publishAt
+          : null,
+      createdAt: backdate.createdAt,
+      hiddenAt: isHeld ? new Date() : null,
+      heldReason: isHeld ? verdict.reason : null,
+      slug: await this.slugService.generate(fields.title),
+      tags: await this.tagService.findOrCreateByNames(tags),
       author,
       authorId: author.id,
     });
 
-    const savedBlog = await this.blogRepository.save(blog);
+    const savedBlog = await this.saveWithUniqueSlug(blog);
+    await this.attachmentService.attachToBlog(attachmentIds, savedBlog, author);
 
     // Load author relation for response
     const blogWithAuthor = await this.blogRepository.findOne({
@@ -34,23 +143,274 @@ export class BlogService {
       throw new Error('Failed to load blog with author');
     }
 
+    await this.revisionService.record(blogWithAuthor, author);
+
+    // Drafts and scheduled posts stay quiet until they go public; back-dated posts are old news
+    if (blogWithAuthor.status === BlogStatus.PUBLISHED && !isBackdated) {
+      await this.enqueuePublishedEvent(blogWithAuthor);
+    }
+
+    return blogWithAuthor;
+  }
+
+  /**
+   * Publishes a draft or scheduled post immediately
+   */
+  async publish(id: string, user: User): Promise<Blog> {
+    const blog = await this.findOne(id);
+
+    if (blog.authorId !== user.id) {
+      throw new UnauthorizedException('You can only publish your own blogs');
+    }
+
+    if (blog.status === BlogStatus.PUBLISHED) {
+      return blog;
+    }
+
+    blog.status = BlogStatus.PUBLISHED;
+    blog.publishAt = new Date();
+    const savedBlog = await this.blogRepository.save(blog);
+
+    await this.enqueuePublishedEvent(savedBlog);
+
+    return savedBlog;
+  }
+
+  /**
+   * Schedules a draft (or reschedules a scheduled post) to go public at publishAt
+   */
+  async schedule(id: string, publishAt: Date, user: User): Promise<Blog> {
+    const blog = await this.findOne(id);
+
+    if (blog.authorId !== user.id) {
+      throw new UnauthorizedException('You can only schedule your own blogs');
+    }
+
+    if (blog.status === BlogStatus.PUBLISHED) {
+      throw new BadRequestException('Blog is already published');
+    }
+
+    this.assertFuturePublishAt(publishAt);
+
+    blog.status = BlogStatus.SCHEDULED;
+    blog.publishAt = publishAt;
+    return this.blogRepository.save(blog);
+  }
+
+  /**
+   * Promotes scheduled posts whose publishAt has passed
+   * The conditional UPDATE ... RETURNING makes this safe to run from several instances:
+   * each post is promoted (and its notification enqueued) exactly once
+   */
+  async publishDueScheduledBlogs(): Promise<number> {
+    const result = await this.blogRepository
+      .createQueryBuilder()
+      .update(Blog)
+      .set({ status: BlogStatus.PUBLISHED })
+      .where('status = :status', { status: BlogStatus.SCHEDULED })
+      .andWhere('publishAt <= :now', { now: new Date() })
+      // Updates don't skip soft-deleted rows on their own
+      .andWhere('deletedAt IS NULL')
+      .returning(['id'])
+      .execute();
+
+    const promotedIds: string[] = (result.raw || []).map((row) => row.id);
+
+    for (const id of promotedIds) {
+      try {
+        const blog = await this.findOne(id);
+        await this.enqueuePublishedEvent(blog);
+      } catch (error) {
+        console.error(`Error enqueueing scheduled blog ${id}:`, error);
+      }
+    }
+
+    return promotedIds.length;
+  }
+
+  private assertFuturePublishAt(publishAt?: Date) {
+    if (!publishAt || publishAt.getTime() <= Date.now()) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+  }
+
+  private async enqueuePublishedEvent(blog: Blog): Promise<void> {
+    // Held posts notify once a moderator releases them (see setHidden), not when
+    // their author publishes them or their schedule comes due
+    if (blog.heldReason) {
+      return;
+    }
+
     // Enqueue blog created event to notification queue
     // The notification worker will process this asynchronously
     await this.notificationQueue.enqueueBlogCreatedEvent({
-      blogId: blogWithAuthor.id,
-      title: blogWithAuthor.title,
-      authorId: blogWithAuthor.authorId,
-      createdAt: blogWithAuthor.createdAt,
+      blogId: blog.id,
+      title: blog.title,
+      authorId: blog.authorId,
+      createdAt: blog.createdAt,
     });
+  }
 
-    return blogWithAuthor;
+  /**
+   * Lets clients patch a public post in place; by the time this runs the edit is
+   * saved, so a queue failure is logged rather than failing the request
+   */
+  private async enqueueUpdatedEvent(blog: Blog): Promise<void> {
+    try {
+      await this.notificationQueue.enqueueBlogUpdatedEvent({
+        blogId: blog.id,
+        authorId: blog.authorId,
+        updatedAt: blog.updatedAt,
+      });
+    } catch (error) {
+      console.error(`Error enqueueing updated blog ${blog.id}:`, error);
+    }
   }
 
-  async findAll(): Promise<Blog[]> {
-    return this.blogRepository.find({
-      relations: ['author'],
-      order: { createdAt: 'DESC' },
-    });
+  /**
+   * Lets clients retract a post that just stopped being public
+   */
+  private async enqueueDeletedEvent(blog: Blog): Promise<void> {
+    try {
+      await this.notificationQueue.enqueueBlogDeletedEvent({
+        blogId: blog.id,
+        authorId: blog.authorId,
+        deletedAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`Error enqueueing deleted blog ${blog.id}:`, error);
+    }
+  }
+
+  async findAll(viewer?: User | null): Promise<Blog[]> {
+    const query = this.blogRepository
+      .createQueryBuilder('blog')
+      .leftJoinAndSelect('blog.author', 'author')
+      .orderBy('blog.createdAt', 'DESC');
+
+    return applyBlogVisibility(query, viewer).getMany();
+  }
+
+  /**
+   * Cursor-paginated blog listing (Relay connection)
+   * Uses keyset pagination on (sort value, id) so pages stay stable while new posts arrive
+   */
+  async findConnection(
+    first?: number,
+    after?: string,
+    filter?: BlogFilterInput,
+    orderBy?: BlogOrderInput,
+    viewer?: User | null,
+  ): Promise<BlogConnection> {
+    const pageSize = normalizePageSize(first);
+    const field = orderBy?.field ?? BlogOrderField.CREATED_AT;
+    const direction = orderBy?.direction ?? OrderDirection.DESC;
+    const orderExpression = ORDER_EXPRESSIONS[field];
+
+    const query = this.blogRepository
+      .createQueryBuilder('blog')
+      .leftJoinAndSelect('blog.author', 'author');
+    applyBlogVisibility(query, viewer);
+    this.applyFilter(query, filter);
+
+    // Total count ignores the cursor so clients can show "x of y"
+    const totalCount = await query.getCount();
+
+    if (after) {
+      const cursor =
+        field === BlogOrderField.TITLE
+          ? decodeCursor(after)
+          : decodeDateCursor(after);
+      const operator = direction === OrderDirection.DESC ? '<' : '>';
+      query.andWhere(
+        `(${orderExpression} ${operator} :cursorValue OR (${orderExpression} = :cursorValue AND blog.id ${operator} :cursorId))`,
+        { cursorValue: cursor.value, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const blogs = await query
+      .orderBy(orderExpression, direction)
+      .addOrderBy('blog.id', direction)
+      .limit(pageSize + 1)
+      .getMany();
+
+    const hasNextPage = blogs.length > pageSize;
+    const edges = blogs.slice(0, pageSize).map((blog) => ({
+      cursor: encodeCursor({
+        value: this.getCursorValue(blog, field),
+        id: blog.id,
+      }),
+      node: blog,
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  private applyFilter(
+    query: SelectQueryBuilder<Blog>,
+    filter?: BlogFilterInput,
+  ) {
+    if (!filter) {
+      return;
+    }
+
+    if (filter.authorId) {
+      query.andWhere('blog.authorId = :authorId', {
+        authorId: filter.authorId,
+      });
+    }
+
+    if (filter.createdAfter) {
+      query.andWhere('blog.createdAt >= :createdAfter', {
+        createdAfter: filter.createdAfter,
+      });
+    }
+
+    if (filter.createdBefore) {
+      query.andWhere('blog.createdAt < :createdBefore', {
+        createdBefore: filter.createdBefore,
+      });
+    }
+
+    if (filter.titleContains) {
+      // Escape LIKE wildcards so user input is matched literally
+      const escaped = filter.titleContains.replace(
+        /[\\%_]/g,
+        (char) => `\\${char}`,
+      );
+      query.andWhere('blog.title ILIKE :titleContains', {
+        titleContains: `%${escaped}%`,
+      });
+    }
+
+    if (filter.tag) {
+      query.andWhere(
+        `EXISTS (
+          SELECT 1 FROM blog_tags bt
+          INNER JOIN tags t ON t.id = bt."tagId"
+          WHERE bt."blogId" = blog.id AND t.name = :tagName
+        )`,
+        { tagName: normalizeTagName(filter.tag) },
+      );
+    }
+  }
+
+  private getCursorValue(blog: Blog, field: BlogOrderField): string {
+    if (field === BlogOrderField.TITLE) {
+      return blog.title;
+    }
+    if (field === BlogOrderField.PUBLISHED_AT) {
+      return (blog.publishAt ?? blog.createdAt).toISOString();
+    }
+    return blog[field].toISOString();
   }
 
   async findOne(id: string): Promise<Blog> {
@@ -66,6 +426,40 @@ export class BlogService {
     return blog;
   }
 
+  /**
+   * Permalink lookup - old slugs resolve to the post and report the slug they came from
+   */
+  async findVisibleBySlug(
+    slug: string,
+    viewer?: User | null,
+  ): Promise<BlogPermalink> {
+    const resolved = await this.slugService.resolve(slug);
+    const blog = resolved && (await this.findOne(resolved.blogId));
+
+    if (!blog || !isBlogVisibleTo(blog, viewer)) {
+      throw new NotFoundException(`Blog with slug ${slug} not found`);
+    }
+
+    return { blog, redirectedFrom: resolved.redirectedFrom };
+  }
+
+  /**
+   * Loads a blog on behalf of a reader - drafts and scheduled posts are only visible to their author
+   */
+  async findVisible(id: string, viewer?: User | null): Promise<Blog> {
+    const blog = await this.findOne(id);
+
+    if (!isBlogVisibleTo(blog, viewer)) {
+      throw new NotFoundException(`Blog with ID ${id} not found`);
+    }
+
+    return blog;
+  }
+
+  /**
+   * Applies an edit made against expectedVersion
+   * Stale edits fail with BlogVersionConflictException, which carries the current post
+   */
   async update(id: string, updateBlogInput: UpdateBlogInput, user: User): Promise<Blog> {
     const blog = await this.findOne(id);
 
@@ -73,10 +467,114 @@ export class BlogService {
       throw new UnauthorizedException('You can only update your own blogs');
     }
 
-    Object.assign(blog, updateBlogInput);
-    return this.blogRepository.save(blog);
+    const {
+      expectedVersion,
+      tags,
+      attachmentIds = [],
+      ...fields
+    } = updateBlogInput;
+    if (blog.version !== expectedVersion) {
+      throw await this.versionConflict(blog.id);
+    }
+
+    await this.revisionService.ensureBaseline(blog, user);
+
+    const { title: previousTitle, slug: previousSlug } = blog;
+    Object.assign(blog, fields);
+    if (tags) {
+      blog.tags = await this.tagService.findOrCreateByNames(tags);
+    }
+    if (blog.title !== previousTitle || !blog.slug) {
+      blog.slug = await this.slugService.generate(blog.title, blog.id);
+    }
+
+    // The version is checked again under a row lock, in the same transaction as the save:
+    // of two edits that both passed the check above only one goes through, the version
+    // moves once per edit, and a failed save leaves it where it was
+    const savedBlog = await this.saveWithUniqueSlug(blog, (edit) =>
+      this.blogRepository.manager.transaction(async (manager) => {
+        const current = await manager
+          .createQueryBuilder(Blog, 'blog')
+          .select(['blog.id', 'blog.version'])
+          .where('blog.id = :id', { id: edit.id })
+          .setLock('pessimistic_write')
+          .getOne();
+        if (current?.version !== expectedVersion) {
+          throw await this.versionConflict(edit.id);
+        }
+        return manager.save(edit);
+      }),
+    );
+    await this.attachmentService.attachToBlog(attachmentIds, savedBlog, user);
+
+    if (savedBlog.slug !== previousSlug) {
+      await this.slugService.recordRename(
+        savedBlog.id,
+        previousSlug,
+        savedBlog.slug,
+      );
+    }
+
+    await this.revisionService.record(savedBlog, user);
+
+    if (isBlogPublic(savedBlog)) {
+      await this.enqueueUpdatedEvent(savedBlog);
+    }
+
+    return savedBlog;
+  }
+
+  /**
+   * Rolls a blog back to an earlier revision
+   * The restore is itself a save, so it shows up as a new revision on top of the history
+   */
+  async restoreRevision(revisionId: string, user: User): Promise<Blog> {
+    const revision = await this.revisionService.findOne(revisionId, user);
+    const { version } = await this.findOne(revision.blogId);
+
+    return this.update(
+      revision.blogId,
+      {
+        title: revision.title,
+        content: revision.content,
+        expectedVersion: version,
+      },
+      user,
+    );
+  }
+
+  private async versionConflict(
+    blogId: string,
+  ): Promise<BlogVersionConflictException> {
+    const current = await this.findOne(blogId);
+    const [tags] = await this.tagService.loadForBlogs([blogId]);
+    return new BlogVersionConflictException(current, tags);
+  }
+
+  /**
+   * Saves a blog, picking the next free slug if a concurrent save just claimed this one
+   * `save` runs again for each attempt, so a transaction in it starts over each time
+   */
+  private async saveWithUniqueSlug(
+    blog: Blog,
+    save: (blog: Blog) => Promise<Blog> = (entity) =>
+      this.blogRepository.save(entity),
+    attempts = 3,
+  ): Promise<Blog> {
+    try {
+      return await save(blog);
+    } catch (error) {
+      if (attempts <= 1 || !this.slugService.isSlugConflict(error)) {
+        throw error;
+      }
+      blog.slug = await this.slugService.generate(blog.title, blog.id);
+      return this.saveWithUniqueSlug(blog, save, attempts - 1);
+    }
   }
 
+  /**
+   * Moves a blog to the author's trash; it can be restored until it is purged
+   */
   async remove(id: string, user: User): Promise<boolean> {
     const blog = await this.findOne(id);
 
@@ -84,8 +582,128 @@ export class BlogService {
       throw new UnauthorizedException('You can only delete your own blogs');
     }
 
-    await this.blogRepository.remove(blog);
+    await this.blogRepository.softRemove(blog);
+
+    if (isBlogPublic(blog)) {
+      await this.enqueueDeletedEvent(blog);
+    }
+
     return true;
   }
+
+  /**
+   * The user's deleted blogs, most recently deleted first
+   */
+  async findTrash(user: User): Promise<Blog[]> {
+    return this.blogRepository.find({
+      where: { authorId: user.id, deletedAt: Not(IsNull()) },
+      relations: ['author'],
+      order: { deletedAt: 'DESC' },
+      withDeleted: true,
+    });
+  }
+
+  async restore(id: string, user: User): Promise<Blog> {
+    const blog = await this.blogRepository.findOne({
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+
+    if (!blog) {
+      throw new NotFoundException(`Deleted blog with ID ${id} not found`);
+    }
+
+    if (blog.authorId !== user.id) {
+      throw new UnauthorizedException('You can only restore your own blogs');
+    }
+
+    await this.blogRepository.restore(id);
+    return this.findOne(id);
+  }
+
+  /**
+   * Permanently deletes posts that have been in the trash longer than the retention window
+   * Comments, reactions, revisions, attachments and markers go with them (ON DELETE CASCADE)
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const blogs = await this.blogRepository.find({
+      where: { deletedAt: LessThan(cutoff) },
+      withDeleted: true,
+    });
+
+    for (const blog of blogs) {
+      await this.purgeBlog(blog);
+    }
+
+    return blogs.length;
+  }
+
+  /**
+   * Permanently deletes a post, whether or not it is in the trash (moderator removals)
+   */
+  async purge(id: string): Promise<void> {
+    const blog = await this.blogRepository.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+
+    if (!blog) {
+      throw new NotFoundException(`Blog with ID ${id} not found`);
+    }
+
+    await this.purgeBlog(blog);
+  }
+
+  private async purgeBlog(blog: Blog): Promise<void> {
+    // Capture before remove(), which clears the entity's id
+    const { id, deletedAt } = blog;
+    await this.attachmentService.removeFilesForBlog(id);
+    await this.blogRepository.remove(blog);
+
+    // Trashed posts were already retracted when they went to the trash
+    if (!deletedAt && isBlogPublic(blog)) {
+      await this.enqueueDeletedEvent({ ...blog, id } as Blog);
+    }
+  }
+
+  /**
+   * Posts hidden by moderators, most recently hidden first
+   */
+  async findHidden(): Promise<Blog[]> {
+    return this.blogRepository.find({
+      where: { hiddenAt: Not(IsNull()) },
+      relations: ['author'],
+      order: { hiddenAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Hides a post from everyone but its author, or brings it back
+   * version and updatedAt are pinned, since TypeORM would otherwise bump them and the
+   * author's open editor would report a conflict for an edit they never made.
+   * Releasing a post held by screening sends the notification its creation skipped
+   */
+  async setHidden(id: string, hidden: boolean): Promise<Blog> {
+    const blog = await this.findOne(id);
+    await this.blogRepository.update(blog.id, {
+      hiddenAt: hidden ? new Date() : null,
+      heldReason: hidden ? blog.heldReason : null,
+      version: () => '"version"',
+      updatedAt: () => '"updatedAt"',
+    });
+
+    const updated = await this.findOne(id);
+    if (hidden && isBlogPublic(blog)) {
+      await this.enqueueDeletedEvent(blog);
+    }
+    if (!hidden && blog.heldReason && updated.status === BlogStatus.PUBLISHED) {
+      await this.enqueuePublishedEvent(updated);
+    }
+
+    return updated;
+  }
 }
 
@@ -0,0 +1,24 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+import { Blog } from '../entities/blog.entity';
+import { PageInfo } from '../../common/pagination/page-info.dto';
+
+@ObjectType()
+export class BlogEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Blog)
+  node: Blog;
+}
+
+@ObjectType()
+export class BlogConnection {
+  @Field(() => [BlogEdge])
+  edges: BlogEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
@@ -0,0 +1,38 @@
+import { InputType, Field, ID } from '@nestjs/graphql';
+import {
+  IsDate,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MinLength,
+} from 'class-validator';
+
+@InputType()
+export class BlogFilterInput {
+  @Field(() => ID, { nullable: true })
+  @IsOptional()
+  @IsUUID()
+  authorId?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  createdAfter?: Date;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  createdBefore?: Date;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  titleContains?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  tag?: string;
+}
@@ -0,0 +1,31 @@
+import { InputType, Field, registerEnumType } from '@nestjs/graphql';
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum BlogOrderField {
+  CREATED_AT = 'createdAt',
+  UPDATED_AT = 'updatedAt',
+  TITLE = 'title',
+  // publishAt, falling back to createdAt for drafts
+  PUBLISHED_AT = 'publishAt',
+}
+
+export enum OrderDirection {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+registerEnumType(BlogOrderField, { name: 'BlogOrderField' });
+registerEnumType(OrderDirection, { name: 'OrderDirection' });
+
+@InputType()
+export class BlogOrderInput {
+  @Field(() => BlogOrderField, { defaultValue: BlogOrderField.CREATED_AT })
+  @IsOptional()
+  @IsEnum(BlogOrderField)
+  field: BlogOrderField;
+
+  @Field(() => OrderDirection, { defaultValue: OrderDirection.DESC })
+  @IsOptional()
+  @IsEnum(OrderDirection)
+  direction: OrderDirection;
+}
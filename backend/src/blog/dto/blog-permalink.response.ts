@@ -0,0 +1,14 @@
+import { ObjectType, Field } from '@nestjs/graphql';
+import { Blog } from '../entities/blog.entity';
+
+@ObjectType()
+export class BlogPermalink {
+  @Field(() => Blog)
+  blog: Blog;
+
+  /**
+   * Set when the requested slug is an old one - clients should switch to blog.slug
+   */
+  @Field({ nullable: true })
+  redirectedFrom?: string;
+}
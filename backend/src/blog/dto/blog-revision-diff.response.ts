@@ -0,0 +1,46 @@
+import { ObjectType, Field, Int, registerEnumType } from '@nestjs/graphql';
+import { BlogRevision } from '../entities/blog-revision.entity';
+
+export enum DiffLineType {
+  ADDED = 'ADDED',
+  REMOVED = 'REMOVED',
+  UNCHANGED = 'UNCHANGED',
+}
+
+registerEnumType(DiffLineType, { name: 'DiffLineType' });
+
+@ObjectType()
+export class DiffLine {
+  @Field(() => DiffLineType)
+  type: DiffLineType;
+
+  @Field()
+  content: string;
+
+  @Field(() => Int, { nullable: true })
+  oldLineNumber?: number;
+
+  @Field(() => Int, { nullable: true })
+  newLineNumber?: number;
+}
+
+@ObjectType()
+export class BlogRevisionDiff {
+  @Field(() => BlogRevision)
+  from: BlogRevision;
+
+  @Field(() => BlogRevision)
+  to: BlogRevision;
+
+  @Field()
+  titleChanged: boolean;
+
+  @Field(() => [DiffLine])
+  lines: DiffLine[];
+
+  @Field(() => Int)
+  additions: number;
+
+  @Field(() => Int)
+  deletions: number;
+}
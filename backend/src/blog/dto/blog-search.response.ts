@@ -0,0 +1,45 @@
+import { ObjectType, Field, Int, Float } from '@nestjs/graphql';
+import { Blog } from '../entities/blog.entity';
+import { PageInfo } from '../../common/pagination/page-info.dto';
+
+@ObjectType()
+export class BlogSearchResult {
+  @Field(() => Blog)
+  blog: Blog;
+
+  @Field(() => Float)
+  rank: number;
+
+  /**
+   * Title with matched terms wrapped in <mark> tags (HTML-escaped otherwise)
+   */
+  @Field()
+  titleHighlight: string;
+
+  /**
+   * Content fragments around the matches, wrapped in <mark> tags (HTML-escaped otherwise)
+   */
+  @Field()
+  snippet: string;
+}
+
+@ObjectType()
+export class BlogSearchEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => BlogSearchResult)
+  node: BlogSearchResult;
+}
+
+@ObjectType()
+export class BlogSearchConnection {
+  @Field(() => [BlogSearchEdge])
+  edges: BlogSearchEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
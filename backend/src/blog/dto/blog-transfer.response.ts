@@ -0,0 +1,76 @@
+import { ObjectType, Field, Int, registerEnumType } from '@nestjs/graphql';
+import { Blog, BlogStatus } from '../entities/blog.entity';
+
+export enum BlogExportFormat {
+  // Zip with one Markdown file (YAML front matter + content) per post
+  MARKDOWN = 'MARKDOWN',
+  // Single JSON document with every post
+  JSON = 'JSON',
+}
+
+registerEnumType(BlogExportFormat, { name: 'BlogExportFormat' });
+
+export enum BlogImportOutcome {
+  CREATED = 'CREATED',
+  // Valid, but only checked because of dryRun
+  WOULD_CREATE = 'WOULD_CREATE',
+  // The user already has a post with the same title and content
+  DUPLICATE = 'DUPLICATE',
+  INVALID = 'INVALID',
+}
+
+registerEnumType(BlogImportOutcome, { name: 'BlogImportOutcome' });
+
+/**
+ * Export file, base64-encoded so it fits in a GraphQL response
+ */
+@ObjectType()
+export class BlogExport {
+  @Field()
+  filename: string;
+
+  @Field()
+  contentType: string;
+
+  @Field()
+  base64: string;
+
+  @Field(() => Int)
+  postCount: number;
+}
+
+@ObjectType()
+export class BlogImportItem {
+  /**
+   * File name inside the zip, or the post's position in a JSON dump
+   */
+  @Field()
+  source: string;
+
+  @Field({ nullable: true })
+  title?: string;
+
+  @Field(() => BlogStatus, { nullable: true })
+  status?: BlogStatus;
+
+  @Field(() => BlogImportOutcome)
+  outcome: BlogImportOutcome;
+
+  /**
+   * Why the post was not imported
+   */
+  @Field({ nullable: true })
+  message?: string;
+
+  @Field(() => Blog, { nullable: true })
+  blog?: Blog;
+}
+
+@ObjectType()
+export class BlogImportResult {
+  @Field()
+  dryRun: boolean;
+
+  @Field(() => [BlogImportItem])
+  items: BlogImportItem[];
+}
@@ -1,5 +1,16 @@
-import { InputType, Field } from '@nestjs/graphql';
-import { IsString, MinLength } from 'class-validator';
+import { InputType, Field, ID } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { BlogStatus } from '../entities/blog.entity';
 
 @InputType()
 export class CreateBlogInput {
@@ -12,5 +23,41 @@ export class CreateBlogInput {
   @IsString()
   @MinLength(1)
   content: string;
+
+  /**
+   * Defaults to PUBLISHED (publish immediately); SCHEDULED requires publishAt
+   */
+  @Field(() => BlogStatus, { nullable: true })
+  @IsOptional()
+  @IsEnum(BlogStatus)
+  status?: BlogStatus;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsDate()
+  publishAt?: Date;
+
+  /**
+   * Tag names; missing tags are created on the fly
+   * On update, a provided list replaces the post's tags
+   */
+  @Field(() => [String], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(32, { each: true })
+  tags?: string[];
+
+  /**
+   * Uploads (from uploadAttachment) to link to the post
+   * Already-linked attachments stay linked, so updates only need the new ones
+   */
+  @Field(() => [ID], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('all', { each: true })
+  attachmentIds?: string[];
 }
 
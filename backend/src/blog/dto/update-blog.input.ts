@@ -1,6 +1,35 @@
-import { InputType, Field, PartialType } from '@nestjs/graphql';
+import { Field, InputType, Int, OmitType, PartialType } from '@nestjs/graphql';
+import { IsInt, IsString, Min, MinLength, ValidateIf } from 'class-validator';
 import { CreateBlogInput } from './create-blog.input';
 
+// Status changes go through publishBlog / scheduleBlog, not updateBlog
 @InputType()
-export class UpdateBlogInput extends PartialType(CreateBlogInput) {}
+export class UpdateBlogInput extends PartialType(
+  OmitType(CreateBlogInput, [
+    'status',
+    'publishAt',
+    'title',
+    'content',
+  ] as const),
+) {
+  // Left out to keep it; unlike the IsOptional PartialType adds, null is still validated
+  @Field({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @MinLength(1)
+  title?: string;
 
+  @Field({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @MinLength(1)
+  content?: string;
+
+  /**
+   * The Blog.version the edit was based on; a mismatch fails with BLOG_VERSION_CONFLICT
+   */
+  @Field(() => Int)
+  @IsInt()
+  @Min(1)
+  expectedVersion: number;
+}
@@ -0,0 +1,60 @@
+import { InputType, Field, Int } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ScreeningDecision } from '../entities/screening-rules.entity';
+
+// Steps can hold or reject; allowing is what switching a check off (null limit) is for
+const STEP_DECISIONS = [ScreeningDecision.HOLD, ScreeningDecision.REJECT];
+
+/**
+ * Replaces all screening rules at once; null limits switch that check off
+ */
+@InputType()
+export class UpdateScreeningRulesInput {
+  @Field(() => [String])
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  bannedWords: string[];
+
+  @Field(() => ScreeningDecision)
+  @IsIn(STEP_DECISIONS)
+  bannedWordDecision: ScreeningDecision;
+
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxLinks?: number | null;
+
+  @Field(() => ScreeningDecision)
+  @IsIn(STEP_DECISIONS)
+  linkLimitDecision: ScreeningDecision;
+
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24 * 365)
+  duplicateWindowHours?: number | null;
+
+  @Field(() => ScreeningDecision)
+  @IsIn(STEP_DECISIONS)
+  duplicateDecision: ScreeningDecision;
+
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxPostsPerHour?: number | null;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { Blog } from './blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Snapshot of a blog's title and content, captured on every save
+ */
+@ObjectType()
+@Entity('blog_revisions')
+@Unique(['blogId', 'revisionNumber'])
+export class BlogRevision {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Field(() => ID)
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  /**
+   * 1-based, increasing per blog
+   */
+  @Field(() => Int)
+  @Column({ type: 'int' })
+  revisionNumber: number;
+
+  @Field()
+  @Column()
+  title: string;
+
+  @Field()
+  @Column('text')
+  content: string;
+
+  @Field(() => User)
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'editorId' })
+  editor: User;
+
+  @Column()
+  editorId: string;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Blog } from './blog.entity';
+
+/**
+ * A slug a blog used before its title changed, kept so old permalinks keep working
+ */
+@Entity('blog_slug_redirects')
+export class BlogSlugRedirect {
+  @PrimaryColumn()
+  slug: string;
+
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
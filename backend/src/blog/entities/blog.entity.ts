@@ -4,11 +4,25 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
+  VersionColumn,
   ManyToOne,
+  ManyToMany,
   JoinColumn,
+  JoinTable,
+  Index,
 } from 'typeorm';
-import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
 import { User } from '../../auth/entities/user.entity';
+import { Tag } from '../../tag/entities/tag.entity';
+
+export enum BlogStatus {
+  DRAFT = 'DRAFT',
+  SCHEDULED = 'SCHEDULED',
+  PUBLISHED = 'PUBLISHED',
+}
+
+registerEnumType(BlogStatus, { name: 'BlogStatus' });
 
 @ObjectType()
 @Entity('blogs')
@@ -25,6 +39,31 @@ export class Blog {
   @Column('text')
   content: string;
 
+  /**
+   * URL-safe, unique identifier derived from the title
+   * Previous slugs live on as BlogSlugRedirect rows; nullable only until
+   * BlogSlugService has backfilled posts created before slugs existed
+   */
+  @Field()
+  @Index('IDX_blogs_slug', { unique: true })
+  @Column({ nullable: true })
+  slug: string;
+
+  /**
+   * Only PUBLISHED posts are visible to readers; drafts and scheduled posts are author-only
+   * Defaults to PUBLISHED so rows created before the workflow existed stay public
+   */
+  @Field(() => BlogStatus)
+  @Column({ type: 'enum', enum: BlogStatus, default: BlogStatus.PUBLISHED })
+  status: BlogStatus;
+
+  /**
+   * When the post goes (or went) public - set for SCHEDULED and PUBLISHED posts
+   */
+  @Field({ nullable: true })
+  @Column({ type: 'timestamp', nullable: true })
+  publishAt?: Date;
+
   @Field()
   @CreateDateColumn()
   createdAt: Date;
@@ -33,6 +72,38 @@ export class Blog {
   @UpdateDateColumn()
   updatedAt: Date;
 
+  /**
+   * Bumped by TypeORM on every save; updateBlog must send the version it edited
+   * (expectedVersion) so a stale copy cannot overwrite a newer one
+   */
+  @Field(() => Int)
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  /**
+   * Set while the post is in the author's trash; TypeORM leaves trashed posts out of
+   * every query unless it is run withDeleted. Purged for good after the retention window
+   */
+  @Field({ nullable: true })
+  @DeleteDateColumn({ nullable: true })
+  deletedAt?: Date | null;
+
+  /**
+   * Set while a moderator has hidden the post; hidden posts stay visible to their author
+   * only and come back unchanged when restored (see ModerationService)
+   */
+  @Field({ nullable: true })
+  @Column({ type: 'timestamp', nullable: true })
+  hiddenAt?: Date | null;
+
+  /**
+   * Why screening held the post for review on creation; set together with hiddenAt
+   * and cleared when a moderator restores the post
+   */
+  @Field({ nullable: true })
+  @Column('text', { nullable: true })
+  heldReason?: string | null;
+
   @Field(() => User)
   @ManyToOne(() => User, (user) => user.blogs)
   @JoinColumn({ name: 'authorId' })
@@ -40,5 +111,33 @@ export class Blog {
 
   @Column()
   authorId: string;
+
+  /**
+   * Exposed through BlogResolver.tags (batched), not eagerly loaded
+   */
+  @ManyToMany(() => Tag, (tag) => tag.blogs)
+  @JoinTable({
+    name: 'blog_tags',
+    joinColumn: { name: 'blogId' },
+    inverseJoinColumn: { name: 'tagId' },
+  })
+  tags: Tag[];
+
+  /**
+   * Full-text search document (title weighted above content)
+   * Generated by Postgres, so it stays in sync on every insert and update
+   * The GIN index is created by BlogSearchService since TypeORM can't declare it
+   */
+  @Index('IDX_blogs_search_vector', { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    nullable: true,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')`,
+  })
+  searchVector?: string;
 }
 
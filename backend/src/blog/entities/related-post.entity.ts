@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Blog } from './blog.entity';
+
+/**
+ * A precomputed recommendation: relatedBlogId is shown under blogId
+ * Rows are written in both directions, since the similarity score is symmetric
+ */
+@Entity('related_posts')
+@Index(['blogId', 'score'])
+export class RelatedPost {
+  @PrimaryColumn('uuid')
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  @PrimaryColumn('uuid')
+  relatedBlogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'relatedBlogId' })
+  relatedBlog: Blog;
+
+  // Between 0 and 1, see relatedScore
+  @Column({ type: 'double precision' })
+  score: number;
+
+  @CreateDateColumn()
+  computedAt: Date;
+}
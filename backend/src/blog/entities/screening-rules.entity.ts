@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ObjectType, Field, Int, registerEnumType } from '@nestjs/graphql';
+import { User } from '../../auth/entities/user.entity';
+
+export enum ScreeningDecision {
+  ALLOW = 'ALLOW',
+  // Saved, but hidden until a moderator restores it
+  HOLD = 'HOLD',
+  REJECT = 'REJECT',
+}
+
+registerEnumType(ScreeningDecision, { name: 'ScreeningDecision' });
+
+/**
+ * Settings for the screening steps new posts go through (see BlogScreeningService)
+ * A single row, edited by moderators at runtime; a null limit switches that check off
+ */
+@ObjectType()
+@Entity('screening_rules')
+export class ScreeningRules {
+  @PrimaryColumn()
+  id: number;
+
+  /**
+   * Matched as whole words or phrases, ignoring case, in the title and content
+   */
+  @Field(() => [String])
+  @Column('text', { array: true, default: '{}' })
+  bannedWords: string[];
+
+  @Field(() => ScreeningDecision)
+  @Column({
+    type: 'enum',
+    enum: ScreeningDecision,
+    default: ScreeningDecision.REJECT,
+  })
+  bannedWordDecision: ScreeningDecision;
+
+  @Field(() => Int, { nullable: true })
+  @Column('int', { nullable: true, default: 10 })
+  maxLinks?: number | null;
+
+  @Field(() => ScreeningDecision)
+  @Column({
+    type: 'enum',
+    enum: ScreeningDecision,
+    default: ScreeningDecision.HOLD,
+  })
+  linkLimitDecision: ScreeningDecision;
+
+  /**
+   * How far back to look for a post with the same content, by any author
+   */
+  @Field(() => Int, { nullable: true })
+  @Column('int', { nullable: true, default: 24 })
+  duplicateWindowHours?: number | null;
+
+  @Field(() => ScreeningDecision)
+  @Column({
+    type: 'enum',
+    enum: ScreeningDecision,
+    default: ScreeningDecision.REJECT,
+  })
+  duplicateDecision: ScreeningDecision;
+
+  /**
+   * Posts (drafts included) one author may create per hour; going over is always rejected
+   */
+  @Field(() => Int, { nullable: true })
+  @Column('int', { nullable: true, default: 10 })
+  maxPostsPerHour?: number | null;
+
+  @Field()
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ nullable: true })
+  updatedById?: string | null;
+
+  @Field(() => User, { nullable: true })
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'updatedById' })
+  updatedBy?: User | null;
+}
@@ -0,0 +1,20 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const BLOG_REJECTED = 'BLOG_REJECTED';
+
+/**
+ * Thrown when a screening step rejects a new post
+ * Surfaces in GraphQL as extensions.response with code BLOG_REJECTED and the step
+ * that rejected it; the message is the step's reason
+ */
+export class BlogRejectedException extends BadRequestException {
+  constructor(reason: string, step: string) {
+    super({
+      statusCode: 400,
+      error: 'Bad Request',
+      code: BLOG_REJECTED,
+      message: reason,
+      step,
+    });
+  }
+}
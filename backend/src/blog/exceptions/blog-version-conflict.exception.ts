@@ -0,0 +1,43 @@
+import { ConflictException } from '@nestjs/common';
+import { Blog } from '../entities/blog.entity';
+import { Tag } from '../../tag/entities/tag.entity';
+
+export const BLOG_VERSION_CONFLICT = 'BLOG_VERSION_CONFLICT';
+
+/**
+ * Snapshot of the stored post, sent back so the client can merge or overwrite
+ */
+export interface BlogServerCopy {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  version: number;
+  updatedAt: string;
+}
+
+/**
+ * Thrown when updateBlog is based on an outdated version of the post
+ * Surfaces in GraphQL as extensions.response with code BLOG_VERSION_CONFLICT and
+ * the current server copy, next to the usual statusCode/message
+ */
+export class BlogVersionConflictException extends ConflictException {
+  constructor(blog: Blog, tags: Tag[]) {
+    const serverCopy: BlogServerCopy = {
+      id: blog.id,
+      title: blog.title,
+      content: blog.content,
+      tags: tags.map((tag) => tag.name),
+      version: blog.version,
+      updatedAt: blog.updatedAt.toISOString(),
+    };
+
+    super({
+      statusCode: 409,
+      error: 'Conflict',
+      code: BLOG_VERSION_CONFLICT,
+      message: 'This blog was changed since you started editing it',
+      serverCopy,
+    });
+  }
+}
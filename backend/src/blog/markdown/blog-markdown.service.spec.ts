@@ -0,0 +1,61 @@
+import { BlogMarkdownService, truncateText } from './blog-markdown.service';
+import { Blog } from '../entities/blog.entity';
+
+const blogWith = (content: string, updatedAt = new Date()): Blog =>
+  ({ id: 'blog-1', content, updatedAt } as Blog);
+
+describe('BlogMarkdownService', () => {
+  const service = new BlogMarkdownService();
+
+  it('renders GFM tables, strikethrough and task lists', () => {
+    const { html } = service.renderMarkdown(
+      '| a | b |\n|---|---|\n| 1 | 2 |\n\n~~old~~\n\n- [x] done',
+    );
+
+    expect(html).toContain('<table>');
+    expect(html).toContain('<del>old</del>');
+    expect(html).toContain('<input checked disabled type="checkbox" />');
+  });
+
+  it('strips scripts, event handlers and javascript: links', () => {
+    const { html } = service.renderMarkdown(
+      '<script>alert(1)</script>\n\n<img src="x" onerror="alert(1)">\n\n[x](javascript:alert(1))',
+    );
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('builds plain-text excerpts without markup or entities', () => {
+    const blog = blogWith('# Title\n\nFish & chips are **great** for lunch.');
+
+    expect(service.excerpt(blog)).toBe(
+      'Title Fish & chips are great for lunch.',
+    );
+    expect(service.excerpt(blog, 14)).toBe('Title Fish &…');
+  });
+
+  it('counts words of the rendered text and rounds reading time up', () => {
+    const blog = blogWith('# Hello\n\nA [link](https://example.com/a/b) here.');
+
+    expect(service.wordCount(blog)).toBe(4);
+    expect(service.readingTimeMinutes(blog)).toBe(1);
+    expect(service.readingTimeMinutes(blogWith('word '.repeat(401)))).toBe(3);
+    expect(service.wordCount(blogWith(''))).toBe(0);
+  });
+
+  it('re-renders when updatedAt changes', () => {
+    const first = service.renderHtml(blogWith('one', new Date(1000)));
+    const second = service.renderHtml(blogWith('two', new Date(2000)));
+
+    expect(first).toContain('one');
+    expect(second).toContain('two');
+  });
+});
+
+describe('truncateText', () => {
+  it('keeps short text as is', () => {
+    expect(truncateText('short', 10)).toBe('short');
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { Marked } from 'marked';
+import * as sanitizeHtml from 'sanitize-html';
+import { Blog } from '../entities/blog.entity';
+
+export const DEFAULT_EXCERPT_LENGTH = 200;
+const MAX_EXCERPT_LENGTH = 1000;
+const MAX_CACHE_ENTRIES = 500;
+// Average adult silent reading speed, as used by most "x min read" labels
+const WORDS_PER_MINUTE = 200;
+
+// Everything GFM produces that is safe to render; anything else (scripts, iframes, styles, event handlers) is dropped
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'p',
+    'br',
+    'hr',
+    'blockquote',
+    'pre',
+    'code',
+    'ul',
+    'ol',
+    'li',
+    'strong',
+    'em',
+    'del',
+    'a',
+    'img',
+    'table',
+    'thead',
+    'tbody',
+    'tr',
+    'th',
+    'td',
+    'input',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel', 'target'],
+    img: ['src', 'alt', 'title'],
+    code: ['class'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align'],
+    input: ['type', 'checked', 'disabled'],
+  },
+  allowedClasses: { code: ['language-*'] },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['http', 'https'] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', {
+      rel: 'nofollow noopener noreferrer',
+      target: '_blank',
+    }),
+  },
+  // Only GFM task list checkboxes may use <input>
+  exclusiveFilter: (frame) =>
+    frame.tag === 'input' && frame.attribs.type !== 'checkbox',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Cuts text to at most `length` characters, preferring a word boundary
+ */
+export const truncateText = (text: string, length: number): string => {
+  if (text.length <= length) {
+    return text;
+  }
+
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  const trimmed = lastSpace > length * 0.6 ? cut.slice(0, lastSpace) : cut;
+
+  return `${trimmed.trimEnd()}…`;
+};
+
+interface RenderedContent {
+  html: string;
+  text: string;
+  wordCount: number;
+}
+
+/**
+ * Renders blog Markdown (GFM) to sanitized HTML and plain-text excerpts
+ * Results are cached per blog and updatedAt, so edits invalidate naturally
+ */
+@Injectable()
+export class BlogMarkdownService {
+  private readonly marked = new Marked({ gfm: true, breaks: false });
+  private readonly cache = new Map<string, RenderedContent>();
+
+  renderHtml(blog: Blog): string {
+    return this.render(blog).html;
+  }
+
+  excerpt(blog: Blog, length = DEFAULT_EXCERPT_LENGTH): string {
+    const clamped = Math.max(1, Math.min(length, MAX_EXCERPT_LENGTH));
+    return truncateText(this.render(blog).text, clamped);
+  }
+
+  /**
+   * Words in the rendered text, so Markdown syntax and link targets do not count
+   */
+  wordCount(blog: Blog): number {
+    return this.render(blog).wordCount;
+  }
+
+  readingTimeMinutes(blog: Blog): number {
+    return Math.max(1, Math.ceil(this.wordCount(blog) / WORDS_PER_MINUTE));
+  }
+
+  /**
+   * Renders Markdown without caching
+   */
+  renderMarkdown(markdown: string): RenderedContent {
+    const rawHtml = this.marked.parse(markdown || '', {
+      async: false,
+    }) as string;
+    const html = sanitizeHtml(rawHtml, SANITIZE_OPTIONS);
+    const text = decodeEntities(
+      sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} }),
+    )
+      .replace(/\s+/g, ' ')
+      .trim();
+    const wordCount = text ? text.split(' ').length : 0;
+
+    return { html, text, wordCount };
+  }
+
+  private render(blog: Blog): RenderedContent {
+    // Blogs rebuilt from queue/Redis payloads may lack updatedAt - render those uncached
+    const version =
+      blog.updatedAt instanceof Date ? blog.updatedAt.getTime() : null;
+    if (version === null) {
+      return this.renderMarkdown(blog.content);
+    }
+
+    const key = `${blog.id}:${version}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const rendered = this.renderMarkdown(blog.content);
+    this.cache.set(key, rendered);
+
+    // Map keeps insertion order, so the first key is the oldest entry
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+
+    return rendered;
+  }
+}
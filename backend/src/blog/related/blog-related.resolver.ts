@@ -0,0 +1,24 @@
+import { Resolver, ResolveField, Parent, Args, Int } from '@nestjs/graphql';
+import { Blog } from '../entities/blog.entity';
+import {
+  BlogRelatedService,
+  DEFAULT_RELATED_POSTS,
+} from './blog-related.service';
+
+@Resolver(() => Blog)
+export class BlogRelatedResolver {
+  constructor(private blogRelatedService: BlogRelatedService) {}
+
+  /**
+   * Public posts similar to this one, best first (at most 10)
+   * Read from the recommendations stored when the post was last published or edited
+   */
+  @ResolveField(() => [Blog])
+  async relatedPosts(
+    @Parent() blog: Blog,
+    @Args('limit', { type: () => Int, defaultValue: DEFAULT_RELATED_POSTS })
+    limit: number,
+  ): Promise<Blog[]> {
+    return this.blogRelatedService.findRelated(blog.id, limit);
+  }
+}
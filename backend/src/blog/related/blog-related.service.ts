@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { Blog } from '../entities/blog.entity';
+import { RelatedPost } from '../entities/related-post.entity';
+import {
+  applyBlogVisibility,
+  isBlogPublic,
+} from '../utils/blog-visibility.util';
+import { BlogMarkdownService } from '../markdown/blog-markdown.service';
+import { TagService } from '../../tag/tag.service';
+import {
+  cosineSimilarity,
+  relatedScore,
+  termFrequencies,
+  topTerms,
+} from './related-posts.util';
+
+export const DEFAULT_RELATED_POSTS = 5;
+// Also how many recommendations are stored per post
+export const MAX_RELATED_POSTS = 10;
+
+// Posts compared in full against the one being refreshed, picked by full-text rank
+const CANDIDATE_LIMIT = 100;
+const QUERY_TERMS = 12;
+// Anything below this shares little more than a common word
+const MIN_SCORE = 0.05;
+
+@Injectable()
+export class BlogRelatedService {
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    @InjectRepository(RelatedPost)
+    private relatedPostRepository: Repository<RelatedPost>,
+    private blogMarkdownService: BlogMarkdownService,
+    private tagService: TagService,
+  ) {}
+
+  /**
+   * Stored recommendations for a post, best first; posts that have since stopped being
+   * public are skipped
+   */
+  async findRelated(
+    blogId: string,
+    limit = DEFAULT_RELATED_POSTS,
+  ): Promise<Blog[]> {
+    const clamped = Math.max(1, Math.min(limit, MAX_RELATED_POSTS));
+    const query = this.blogRepository
+      .createQueryBuilder('blog')
+      .innerJoin(RelatedPost, 'related', 'related.relatedBlogId = blog.id')
+      .leftJoinAndSelect('blog.author', 'author')
+      .where('related.blogId = :blogId', { blogId });
+    applyBlogVisibility(query);
+
+    return query
+      .orderBy('related.score', 'DESC')
+      .addOrderBy('blog.id', 'ASC')
+      .limit(clamped)
+      .getMany();
+  }
+
+  /**
+   * Recomputes a post's recommendations and its place in other posts' lists
+   * Run by the notification worker after a post is published or edited; a post that is
+   * no longer public just loses its stored recommendations
+   */
+  async refresh(blogId: string): Promise<void> {
+    const blog = await this.blogRepository.findOne({ where: { id: blogId } });
+
+    if (!blog || !isBlogPublic(blog)) {
+      await this.relatedPostRepository.delete({ blogId });
+      return;
+    }
+
+    const frequencies = this.frequenciesFor(blog);
+    const [tags] = await this.tagService.loadForBlogs([blog.id]);
+    const tagIds = tags.map((tag) => tag.id);
+    const candidates = await this.findCandidates(
+      blog.id,
+      topTerms(frequencies, QUERY_TERMS),
+      tagIds,
+    );
+
+    const candidateTags = candidates.length
+      ? await this.tagService.loadForBlogs(candidates.map(({ id }) => id))
+      : [];
+    const scored = candidates
+      .map((candidate, index) => ({
+        id: candidate.id,
+        score: relatedScore(
+          cosineSimilarity(frequencies, this.frequenciesFor(candidate)),
+          tagIds,
+          candidateTags[index].map((tag) => tag.id),
+        ),
+      }))
+      .filter(({ score }) => score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RELATED_POSTS);
+
+    // Scores against this post are stale in both directions
+    await this.relatedPostRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"blogId" = :blogId OR "relatedBlogId" = :blogId', { blogId })
+      .execute();
+
+    if (!scored.length) {
+      return;
+    }
+
+    // orIgnore: a concurrent refresh of one of the candidates may have written its pair first
+    await this.relatedPostRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RelatedPost)
+      .values(
+        scored.flatMap(({ id, score }) => [
+          { blogId, relatedBlogId: id, score },
+          { blogId: id, relatedBlogId: blogId, score },
+        ]),
+      )
+      .orIgnore()
+      .execute();
+  }
+
+  private frequenciesFor(blog: Blog): Map<string, number> {
+    return termFrequencies(
+      blog.title,
+      this.blogMarkdownService.renderMarkdown(blog.content).text,
+    );
+  }
+
+  /**
+   * Public posts that share one of the top terms (stemmed, through the search vector)
+   * or a tag, best full-text match first
+   */
+  private async findCandidates(
+    blogId: string,
+    terms: string[],
+    tagIds: string[],
+  ): Promise<Blog[]> {
+    if (!terms.length && !tagIds.length) {
+      return [];
+    }
+
+    const tsQuery = `to_tsquery('english', :terms)`;
+    const query = this.blogRepository
+      .createQueryBuilder('blog')
+      .where('blog.id != :blogId', { blogId })
+      .andWhere(
+        new Brackets((candidates) => {
+          if (terms.length) {
+            candidates.orWhere(`blog.searchVector @@ ${tsQuery}`);
+          }
+          if (tagIds.length) {
+            candidates.orWhere(
+              'blog.id IN (SELECT "blogId" FROM blog_tags WHERE "tagId" IN (:...tagIds))',
+              { tagIds },
+            );
+          }
+        }),
+      )
+      .setParameter('terms', terms.join(' | '));
+    applyBlogVisibility(query);
+
+    return query
+      .orderBy(
+        terms.length
+          ? `ts_rank(blog.searchVector, ${tsQuery})`
+          : 'blog.createdAt',
+        'DESC',
+      )
+      .limit(CANDIDATE_LIMIT)
+      .getMany();
+  }
+}
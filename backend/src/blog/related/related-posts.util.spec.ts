@@ -0,0 +1,41 @@
+import {
+  cosineSimilarity,
+  relatedScore,
+  termFrequencies,
+  topTerms,
+} from './related-posts.util';
+
+describe('termFrequencies', () => {
+  it('should weight title terms and drop stop words and short terms', () => {
+    const frequencies = termFrequencies(
+      'Vue Routing',
+      'The router and vue: a guide',
+    );
+    expect(Object.fromEntries(frequencies)).toEqual({
+      vue: 4,
+      routing: 3,
+      router: 1,
+      guide: 1,
+    });
+    expect(topTerms(frequencies, 2)).toEqual(['vue', 'routing']);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should be 1 for the same terms and 0 for no shared terms', () => {
+    const a = termFrequencies('Postgres indexes', 'btree gin');
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(cosineSimilarity(a, termFrequencies('Baking', 'bread'))).toBe(0);
+  });
+});
+
+describe('relatedScore', () => {
+  it('should use text alone when neither post has tags', () => {
+    expect(relatedScore(0.5, [], [])).toBe(0.5);
+  });
+
+  it('should blend in the share of common tags', () => {
+    expect(relatedScore(0, ['vue', 'css'], ['vue'])).toBeCloseTo(0.15);
+    expect(relatedScore(1, ['vue'], ['vue'])).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,92 @@
+// Title words describe a post better than any one word in the body
+const TITLE_WEIGHT = 3;
+const MIN_TERM_LENGTH = 3;
+
+// Share of the score that comes from tags when either post has any
+const TAG_WEIGHT = 0.3;
+
+const STOP_WORDS = new Set(
+  (
+    'about above after again all also and any are because been before being below ' +
+    'between both but can could did does doing down during each few for from further ' +
+    'had has have having her here hers herself him himself his how into its itself ' +
+    'just more most not now off once only other our ours out over own same she should ' +
+    'some such than that the their theirs them then there these they this those ' +
+    'through too under until very was were what when where which while who whom why ' +
+    'will with would you your yours yourself'
+  ).split(' '),
+);
+
+const tokenize = (text: string): string[] =>
+  (text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(term));
+
+/**
+ * How often each term occurs in a post, title terms counting TITLE_WEIGHT times
+ * Terms are letters and digits only, so they are safe to put into a tsquery
+ */
+export const termFrequencies = (
+  title: string,
+  text: string,
+): Map<string, number> => {
+  const frequencies = new Map<string, number>();
+  const add = (terms: string[], weight: number) => {
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+    }
+  };
+
+  add(tokenize(title), TITLE_WEIGHT);
+  add(tokenize(text), 1);
+
+  return frequencies;
+};
+
+/**
+ * The most frequent terms, most frequent first
+ */
+export const topTerms = (
+  frequencies: Map<string, number>,
+  count: number,
+): string[] =>
+  [...frequencies.entries()]
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, count)
+    .map(([term]) => term);
+
+export const cosineSimilarity = (
+  a: Map<string, number>,
+  b: Map<string, number>,
+): number => {
+  let dot = 0;
+  for (const [term, frequency] of a) {
+    dot += frequency * (b.get(term) ?? 0);
+  }
+  if (!dot) {
+    return 0;
+  }
+
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt([...vector.values()].reduce((sum, value) => sum + value ** 2, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+/**
+ * Combines text similarity with the share of tags two posts have in common (Jaccard)
+ * Posts without tags on either side are compared on text alone
+ */
+export const relatedScore = (
+  textSimilarity: number,
+  tagsA: string[],
+  tagsB: string[],
+): number => {
+  const union = new Set([...tagsA, ...tagsB]);
+  if (!union.size) {
+    return textSimilarity;
+  }
+
+  const shared = tagsA.filter((tag) => tagsB.includes(tag)).length;
+  return (1 - TAG_WEIGHT) * textSimilarity + TAG_WEIGHT * (shared / union.size);
+};
@@ -0,0 +1,45 @@
+import { Resolver, Query, Mutation, Args, ID, Context } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { BlogRevisionService } from './blog-revision.service';
+import { BlogService } from '../blog.service';
+import { Blog } from '../entities/blog.entity';
+import { BlogRevision } from '../entities/blog-revision.entity';
+import { BlogRevisionDiff } from '../dto/blog-revision-diff.response';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { User } from '../../auth/entities/user.entity';
+
+@Resolver(() => BlogRevision)
+export class BlogRevisionResolver {
+  constructor(
+    private revisionService: BlogRevisionService,
+    private blogService: BlogService,
+  ) {}
+
+  @Query(() => [BlogRevision])
+  @UseGuards(JwtAuthGuard)
+  async blogRevisions(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<BlogRevision[]> {
+    return this.revisionService.findForBlog(blogId, context.req.user);
+  }
+
+  @Query(() => BlogRevisionDiff)
+  @UseGuards(JwtAuthGuard)
+  async blogRevisionDiff(
+    @Args('fromId', { type: () => ID }) fromId: string,
+    @Args('toId', { type: () => ID }) toId: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<BlogRevisionDiff> {
+    return this.revisionService.diff(fromId, toId, context.req.user);
+  }
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async restoreBlogRevision(
+    @Args('revisionId', { type: () => ID }) revisionId: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.blogService.restoreRevision(revisionId, context.req.user);
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Blog } from '../entities/blog.entity';
+import { BlogRevision } from '../entities/blog-revision.entity';
+import { User } from '../../auth/entities/user.entity';
+import {
+  BlogRevisionDiff,
+  DiffLineType,
+} from '../dto/blog-revision-diff.response';
+import { diffLines } from '../utils/line-diff.util';
+
+@Injectable()
+export class BlogRevisionService {
+  constructor(
+    @InjectRepository(BlogRevision)
+    private revisionRepository: Repository<BlogRevision>,
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+  ) {}
+
+  /**
+   * Records the blog's current title and content as its next revision
+   */
+  async record(blog: Blog, editor: User): Promise<BlogRevision> {
+    const latest = await this.revisionRepository.findOne({
+      where: { blogId: blog.id },
+      order: { revisionNumber: 'DESC' },
+    });
+
+    const revision = this.revisionRepository.create({
+      blogId: blog.id,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      title: blog.title,
+      content: blog.content,
+      editorId: editor.id,
+    });
+
+    return this.revisionRepository.save(revision);
+  }
+
+  /**
+   * Posts created before revision tracking have no history yet
+   * Snapshot their current state first so the first edit stays reversible
+   */
+  async ensureBaseline(blog: Blog, editor: User): Promise<void> {
+    const count = await this.revisionRepository.count({
+      where: { blogId: blog.id },
+    });
+
+    if (count === 0) {
+      await this.record(blog, editor);
+    }
+  }
+
+  /**
+   * Batch loader for each blog's latest revision number; 0 for posts never saved since
+   * revisions were tracked
+   */
+  async latestRevisionNumbers(blogIds: readonly string[]): Promise<number[]> {
+    const rows = await this.revisionRepository
+      .createQueryBuilder('revision')
+      .select('revision.blogId', 'blogId')
+      .addSelect('MAX(revision.revisionNumber)', 'latest')
+      .where('revision.blogId IN (:...blogIds)', { blogIds })
+      .groupBy('revision.blogId')
+      .getRawMany();
+
+    const latest = new Map<string, number>(
+      rows.map((row) => [row.blogId, Number(row.latest)]),
+    );
+
+    return blogIds.map((id) => latest.get(id) ?? 0);
+  }
+
+  async findForBlog(blogId: string, user: User): Promise<BlogRevision[]> {
+    await this.assertAuthor(blogId, user);
+
+    return this.revisionRepository.find({
+      where: { blogId },
+      relations: ['editor'],
+      order: { revisionNumber: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, user: User): Promise<BlogRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { id },
+      relations: ['editor'],
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision with ID ${id} not found`);
+    }
+
+    await this.assertAuthor(revision.blogId, user);
+
+    return revision;
+  }
+
+  async diff(
+    fromId: string,
+    toId: string,
+    user: User,
+  ): Promise<BlogRevisionDiff> {
+    const from = await this.findOne(fromId, user);
+    const to = await this.findOne(toId, user);
+
+    if (from.blogId !== to.blogId) {
+      throw new BadRequestException(
+        'Revisions must belong to the same blog to be compared',
+      );
+    }
+
+    const lines = diffLines(from.content, to.content).map((entry) => ({
+      ...entry,
+      type: entry.type as DiffLineType,
+    }));
+
+    return {
+      from,
+      to,
+      titleChanged: from.title !== to.title,
+      lines,
+      additions: lines.filter((line) => line.type === DiffLineType.ADDED)
+        .length,
+      deletions: lines.filter((line) => line.type === DiffLineType.REMOVED)
+        .length,
+    };
+  }
+
+  private async assertAuthor(blogId: string, user: User): Promise<void> {
+    const blog = await this.blogRepository.findOne({ where: { id: blogId } });
+
+    if (!blog) {
+      throw new NotFoundException(`Blog with ID ${blogId} not found`);
+    }
+
+    if (blog.authorId !== user.id) {
+      throw new UnauthorizedException(
+        'You can only view revisions of your own blogs',
+      );
+    }
+  }
+}
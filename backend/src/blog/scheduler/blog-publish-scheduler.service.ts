@@ -0,0 +1,47 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { BlogService } from '../blog.service';
+
+@Injectable()
+export class BlogPublishSchedulerService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL_MS = 30000; // Check for due posts every 30s
+
+  constructor(private blogService: BlogService) {}
+
+  async onModuleInit() {
+    this.isRunning = true;
+    this.tick();
+  }
+
+  async onModuleDestroy() {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Promote due scheduled posts, then schedule the next check
+   */
+  private async tick() {
+    if (!this.isRunning) {
+      return;
+    }
+
+    try {
+      await this.blogService.publishDueScheduledBlogs();
+    } catch (error) {
+      console.error('Error publishing scheduled blogs:', error);
+    } finally {
+      if (this.isRunning) {
+        this.timer = setTimeout(() => {
+          this.tick();
+        }, this.CHECK_INTERVAL_MS);
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { BlogService } from '../blog.service';
+
+@Injectable()
+export class BlogTrashPurgeService implements OnModuleInit, OnModuleDestroy {
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL_MS = 60 * 60 * 1000; // Purge expired trash hourly
+
+  constructor(private blogService: BlogService) {}
+
+  async onModuleInit() {
+    this.isRunning = true;
+    this.tick();
+  }
+
+  async onModuleDestroy() {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    if (!this.isRunning) {
+      return;
+    }
+
+    try {
+      await this.blogService.purgeExpiredTrash();
+    } catch (error) {
+      console.error('Error purging deleted blogs:', error);
+    } finally {
+      if (this.isRunning) {
+        this.timer = setTimeout(() => {
+          this.tick();
+        }, this.CHECK_INTERVAL_MS);
+      }
+    }
+  }
+}
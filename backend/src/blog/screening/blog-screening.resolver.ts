@@ -0,0 +1,34 @@
+import { Resolver, Query, Mutation, Args, Context } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { BlogScreeningService } from './blog-screening.service';
+import { ScreeningRules } from '../entities/screening-rules.entity';
+import { UpdateScreeningRulesInput } from '../dto/update-screening-rules.input';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { User, UserRole } from '../../auth/entities/user.entity';
+
+@Resolver(() => ScreeningRules)
+export class BlogScreeningResolver {
+  constructor(private screeningService: BlogScreeningService) {}
+
+  @Query(() => ScreeningRules)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async screeningRules(): Promise<ScreeningRules> {
+    return this.screeningService.getRules();
+  }
+
+  /**
+   * Takes effect for the next post created
+   */
+  @Mutation(() => ScreeningRules)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async updateScreeningRules(
+    @Args('input') input: UpdateScreeningRulesInput,
+    @Context() context: { req: { user: User } },
+  ): Promise<ScreeningRules> {
+    return this.screeningService.updateRules(input, context.req.user);
+  }
+}
@@ -0,0 +1,90 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ScreeningDecision,
+  ScreeningRules,
+} from '../entities/screening-rules.entity';
+import { UpdateScreeningRulesInput } from '../dto/update-screening-rules.input';
+import {
+  ALLOW,
+  SCREENING_STEPS,
+  ScreeningCandidate,
+  ScreeningStep,
+  ScreeningVerdict,
+} from './screening-step';
+import { User } from '../../auth/entities/user.entity';
+
+// screening_rules holds a single row
+const RULES_ID = 1;
+
+/**
+ * Runs new posts through the screening steps before they are saved
+ */
+@Injectable()
+export class BlogScreeningService {
+  constructor(
+    @InjectRepository(ScreeningRules)
+    private rulesRepository: Repository<ScreeningRules>,
+    @Inject(SCREENING_STEPS)
+    private steps: ScreeningStep[],
+  ) {}
+
+  /**
+   * Steps run in order against the current rules. The first rejection ends the chain;
+   * a hold is remembered while later steps still get the chance to reject
+   */
+  async screen(candidate: ScreeningCandidate): Promise<ScreeningVerdict> {
+    const rules = await this.getRules();
+    let held: ScreeningVerdict | null = null;
+
+    for (const step of this.steps) {
+      const verdict = await step.screen(candidate, rules);
+      if (verdict.decision === ScreeningDecision.REJECT) {
+        return { ...verdict, step: step.name };
+      }
+      if (verdict.decision === ScreeningDecision.HOLD && !held) {
+        held = { ...verdict, step: step.name };
+      }
+    }
+
+    return held ?? ALLOW;
+  }
+
+  /**
+   * Read fresh on every call, so edits apply to the next post on every instance
+   * The row is created with the column defaults the first time it is needed
+   */
+  async getRules(): Promise<ScreeningRules> {
+    await this.rulesRepository
+      .createQueryBuilder()
+      .insert()
+      .into(ScreeningRules)
+      .values({ id: RULES_ID })
+      .orIgnore()
+      .execute();
+
+    return this.rulesRepository.findOne({
+      where: { id: RULES_ID },
+      relations: ['updatedBy'],
+    });
+  }
+
+  async updateRules(
+    input: UpdateScreeningRulesInput,
+    moderator: User,
+  ): Promise<ScreeningRules> {
+    await this.getRules();
+    const bannedWords = input.bannedWords
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0);
+
+    await this.rulesRepository.update(RULES_ID, {
+      ...input,
+      bannedWords: [...new Set(bannedWords)],
+      updatedById: moderator.id,
+    });
+
+    return this.getRules();
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  ScreeningDecision,
+  ScreeningRules,
+} from '../entities/screening-rules.entity';
+
+// Nest provider token for the ordered list of steps (see BlogModule)
+export const SCREENING_STEPS = 'SCREENING_STEPS';
+
+export enum ScreeningSource {
+  EDITOR = 'EDITOR',
+  // Posts from importBlogs, which arrive in bulk
+  IMPORT = 'IMPORT',
+}
+
+/**
+ * A post about to be created
+ */
+export interface ScreeningCandidate {
+  title: string;
+  content: string;
+  authorId: string;
+  source: ScreeningSource;
+}
+
+export interface ScreeningVerdict {
+  decision: ScreeningDecision;
+  // Shown to the author on REJECT and to moderators on HOLD
+  reason?: string;
+  // Name of the step that decided; empty when the post was allowed
+  step?: string;
+}
+
+/**
+ * One check in the screening chain
+ * Add a step by implementing this and listing it under SCREENING_STEPS in BlogModule
+ */
+export abstract class ScreeningStep {
+  abstract readonly name: string;
+
+  abstract screen(
+    candidate: ScreeningCandidate,
+    rules: ScreeningRules,
+  ): Promise<ScreeningVerdict>;
+}
+
+export const ALLOW: ScreeningVerdict = { decision: ScreeningDecision.ALLOW };
@@ -0,0 +1,31 @@
+import {
+  countLinks,
+  findBannedWords,
+  normalizeForDuplicateCheck,
+} from './screening-text.util';
+
+describe('screening text utils', () => {
+  it('matches banned words and phrases as whole words, ignoring case', () => {
+    const text = 'Buy CHEAP watches now! Classic designs.';
+
+    expect(findBannedWords(text, ['cheap', 'ass', 'buy cheap', ' '])).toEqual([
+      'cheap',
+      'buy cheap',
+    ]);
+    expect(findBannedWords('Café crème', ['café'])).toEqual(['café']);
+  });
+
+  it('counts bare and Markdown links', () => {
+    const text =
+      'See https://example.com and [docs](http://docs.example.com/a?b=1), or www.example.org.';
+
+    expect(countLinks(text)).toBe(3);
+    expect(countLinks('No links here, just example.com')).toBe(0);
+  });
+
+  it('ignores case and whitespace when normalizing for duplicates', () => {
+    expect(normalizeForDuplicateCheck('  Hello\n\n  World\t')).toBe(
+      'hello world',
+    );
+  });
+});
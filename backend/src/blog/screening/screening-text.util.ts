@@ -0,0 +1,36 @@
+// Bare URLs and www. hosts; Markdown links count through the URL inside them
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()[\]]+/gi;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Banned words or phrases that appear in the text as whole words, ignoring case
+ */
+export const findBannedWords = (text: string, words: string[]): string[] => {
+  const lowerText = text.toLowerCase();
+
+  return words.filter((word) => {
+    const needle = word.trim().toLowerCase();
+    if (!needle) {
+      return false;
+    }
+    // Letters and digits on either side mean the word is part of a longer one
+    return new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(needle)}($|[^\\p{L}\\p{N}])`,
+      'u',
+    ).test(lowerText);
+  });
+};
+
+export const countLinks = (text: string): number => {
+  return text.match(LINK_PATTERN)?.length ?? 0;
+};
+
+/**
+ * Content as compared for duplicates: case and whitespace don't matter
+ * Mirrored in SQL by DuplicateContentStep, so keep the two in step
+ */
+export const normalizeForDuplicateCheck = (content: string): string => {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+};
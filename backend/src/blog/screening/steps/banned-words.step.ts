@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { ScreeningRules } from '../../entities/screening-rules.entity';
+import {
+  ALLOW,
+  ScreeningCandidate,
+  ScreeningStep,
+  ScreeningVerdict,
+} from '../screening-step';
+import { findBannedWords } from '../screening-text.util';
+
+@Injectable()
+export class BannedWordsStep extends ScreeningStep {
+  readonly name = 'bannedWords';
+
+  async screen(
+    candidate: ScreeningCandidate,
+    rules: ScreeningRules,
+  ): Promise<ScreeningVerdict> {
+    const found = findBannedWords(
+      `${candidate.title}\n${candidate.content}`,
+      rules.bannedWords,
+    );
+    if (!found.length) {
+      return ALLOW;
+    }
+
+    return {
+      decision: rules.bannedWordDecision,
+      reason: `Contains words that aren't allowed: ${found.join(', ')}`,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Blog } from '../../entities/blog.entity';
+import { ScreeningRules } from '../../entities/screening-rules.entity';
+import {
+  ALLOW,
+  ScreeningCandidate,
+  ScreeningStep,
+  ScreeningVerdict,
+} from '../screening-step';
+import { normalizeForDuplicateCheck } from '../screening-text.util';
+
+/**
+ * Catches the same content posted again within the window, by the author or anyone else
+ * Compared after normalizeForDuplicateCheck, which the SQL below mirrors
+ */
+@Injectable()
+export class DuplicateContentStep extends ScreeningStep {
+  readonly name = 'duplicateContent';
+
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+  ) {
+    super();
+  }
+
+  async screen(
+    candidate: ScreeningCandidate,
+    rules: ScreeningRules,
+  ): Promise<ScreeningVerdict> {
+    if (rules.duplicateWindowHours == null) {
+      return ALLOW;
+    }
+
+    const since = new Date(
+      Date.now() - rules.duplicateWindowHours * 60 * 60 * 1000,
+    );
+    const duplicate = await this.blogRepository
+      .createQueryBuilder('blog')
+      .where('blog.createdAt > :since', { since })
+      .andWhere(
+        `btrim(lower(regexp_replace(blog.content, '\\s+', ' ', 'g'))) = :content`,
+        { content: normalizeForDuplicateCheck(candidate.content) },
+      )
+      .getExists();
+    if (!duplicate) {
+      return ALLOW;
+    }
+
+    return {
+      decision: rules.duplicateDecision,
+      reason: 'The same content was posted recently',
+    };
+  }
+}
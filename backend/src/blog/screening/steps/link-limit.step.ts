@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { ScreeningRules } from '../../entities/screening-rules.entity';
+import {
+  ALLOW,
+  ScreeningCandidate,
+  ScreeningStep,
+  ScreeningVerdict,
+} from '../screening-step';
+import { countLinks } from '../screening-text.util';
+
+@Injectable()
+export class LinkLimitStep extends ScreeningStep {
+  readonly name = 'linkLimit';
+
+  async screen(
+    candidate: ScreeningCandidate,
+    rules: ScreeningRules,
+  ): Promise<ScreeningVerdict> {
+    if (rules.maxLinks == null) {
+      return ALLOW;
+    }
+
+    const links = countLinks(candidate.content);
+    if (links <= rules.maxLinks) {
+      return ALLOW;
+    }
+
+    return {
+      decision: rules.linkLimitDecision,
+      reason: `Contains ${links} links; posts may have at most ${rules.maxLinks}`,
+    };
+  }
+}
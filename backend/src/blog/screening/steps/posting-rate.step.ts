@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { Blog } from '../../entities/blog.entity';
+import {
+  ScreeningDecision,
+  ScreeningRules,
+} from '../../entities/screening-rules.entity';
+import {
+  ALLOW,
+  ScreeningCandidate,
+  ScreeningSource,
+  ScreeningStep,
+  ScreeningVerdict,
+} from '../screening-step';
+
+/**
+ * Caps how many posts an author creates per hour
+ * Trashed posts still count; imports are one action and are not rate limited
+ */
+@Injectable()
+export class PostingRateStep extends ScreeningStep {
+  readonly name = 'postingRate';
+
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+  ) {
+    super();
+  }
+
+  async screen(
+    candidate: ScreeningCandidate,
+    rules: ScreeningRules,
+  ): Promise<ScreeningVerdict> {
+    if (rules.maxPostsPerHour == null) {
+      return ALLOW;
+    }
+    if (candidate.source === ScreeningSource.IMPORT) {
+      return ALLOW;
+    }
+
+    const recentPosts = await this.blogRepository.count({
+      where: {
+        authorId: candidate.authorId,
+        createdAt: MoreThan(new Date(Date.now() - 60 * 60 * 1000)),
+      },
+      withDeleted: true,
+    });
+    if (recentPosts < rules.maxPostsPerHour) {
+      return ALLOW;
+    }
+
+    return {
+      decision: ScreeningDecision.REJECT,
+      reason: `You can create at most ${rules.maxPostsPerHour} posts per hour. Please try again later`,
+    };
+  }
+}
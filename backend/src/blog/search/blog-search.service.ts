@@ -0,0 +1,137 @@
+import { BadRequestException, Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Blog } from '../entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+import { applyBlogVisibility } from '../utils/blog-visibility.util';
+import { BlogSearchConnection } from '../dto/blog-search.response';
+import {
+  decodeCursor,
+  encodeCursor,
+  normalizePageSize,
+} from '../../common/pagination/cursor.util';
+
+// Control characters used as highlight delimiters, swapped for <mark> after HTML-escaping
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+const SNIPPET_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+
+const TS_QUERY = "websearch_to_tsquery('english', :query)";
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const toHighlightHtml = (text: string): string =>
+  escapeHtml(text || '')
+    .split(HIGHLIGHT_START)
+    .join('<mark>')
+    .split(HIGHLIGHT_STOP)
+    .join('</mark>');
+
+@Injectable()
+export class BlogSearchService implements OnModuleInit {
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // GIN index for the generated search vector (not expressible through TypeORM decorators)
+      await this.blogRepository.query(
+        'CREATE INDEX IF NOT EXISTS "IDX_blogs_search_vector" ON "blogs" USING GIN ("searchVector")',
+      );
+    } catch (error) {
+      console.error('Error creating blog search index:', error);
+    }
+  }
+
+  /**
+   * Ranked full-text search over blog titles and content
+   * Relevance isn't a stable sort key, so search cursors carry an offset rather than a keyset
+   */
+  async search(
+    query: string,
+    first?: number,
+    after?: string,
+    viewer?: User | null,
+  ): Promise<BlogSearchConnection> {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      return { edges: [], pageInfo: { hasNextPage: false }, totalCount: 0 };
+    }
+
+    const pageSize = normalizePageSize(first);
+    const offset = after ? this.decodeOffset(after) : 0;
+
+    const baseQuery = this.blogRepository
+      .createQueryBuilder('blog')
+      .leftJoinAndSelect('blog.author', 'author')
+      .where(`blog.searchVector @@ ${TS_QUERY}`, { query: trimmedQuery });
+    applyBlogVisibility(baseQuery, viewer);
+
+    const totalCount = await baseQuery.getCount();
+
+    const { entities, raw } = await baseQuery
+      .addSelect(`ts_rank(blog.searchVector, ${TS_QUERY})`, 'rank')
+      .addSelect(
+        `ts_headline('english', blog.title, ${TS_QUERY}, :titleOptions)`,
+        'title_highlight',
+      )
+      .addSelect(
+        `ts_headline('english', blog.content, ${TS_QUERY}, :snippetOptions)`,
+        'snippet',
+      )
+      .setParameters({
+        titleOptions: TITLE_OPTIONS,
+        snippetOptions: SNIPPET_OPTIONS,
+      })
+      .orderBy('rank', 'DESC')
+      .addOrderBy('blog.createdAt', 'DESC')
+      .addOrderBy('blog.id', 'DESC')
+      .offset(offset)
+      .limit(pageSize + 1)
+      .getRawAndEntities();
+
+    const hasNextPage = entities.length > pageSize;
+    const edges = entities.slice(0, pageSize).map((blog, index) => {
+      const row = raw.find((r) => r.blog_id === blog.id) ?? raw[index];
+      return {
+        cursor: encodeCursor({ value: offset + index, id: blog.id }),
+        node: {
+          blog,
+          rank: parseFloat(row.rank),
+          titleHighlight: toHighlightHtml(row.title_highlight),
+          snippet: toHighlightHtml(row.snippet),
+        },
+      };
+    });
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  /**
+   * The offset after a search cursor; cursors from other connections don't carry one
+   */
+  private decodeOffset(after: string): number {
+    const value = decodeCursor(after).value;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return value + 1;
+  }
+}
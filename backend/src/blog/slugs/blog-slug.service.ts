@@ -0,0 +1,123 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError, Repository } from 'typeorm';
+import { Blog } from '../entities/blog.entity';
+import { BlogSlugRedirect } from '../entities/blog-slug-redirect.entity';
+import { pickAvailableSlug, slugify } from '../utils/slug.util';
+
+export interface ResolvedSlug {
+  blogId: string;
+  // The requested slug when it only matched a redirect
+  redirectedFrom: string | null;
+}
+
+@Injectable()
+export class BlogSlugService implements OnModuleInit {
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    @InjectRepository(BlogSlugRedirect)
+    private redirectRepository: Repository<BlogSlugRedirect>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Posts created before slugs existed get one derived from their current title
+      const blogs = await this.blogRepository.find({
+        select: { id: true, title: true },
+        where: { slug: IsNull() },
+        order: { createdAt: 'ASC' },
+        withDeleted: true,
+      });
+
+      for (const blog of blogs) {
+        await this.blogRepository
+          .createQueryBuilder()
+          .update(Blog)
+          // Keep updatedAt as is - backfilling a slug isn't an edit
+          .set({
+            slug: await this.generate(blog.title, blog.id),
+            updatedAt: () => '"updatedAt"',
+          })
+          .where('id = :id', { id: blog.id })
+          .execute();
+      }
+    } catch (error) {
+      console.error('Error backfilling blog slugs:', error);
+    }
+  }
+
+  /**
+   * Unique slug for a title, numbered when another post already uses (or used) it
+   * Pass the blog's own id when renaming so its current and former slugs stay available to it
+   */
+  async generate(title: string, blogId?: string): Promise<string> {
+    const base = slugify(title);
+    const params = { base, pattern: `${base}-%`, blogId };
+
+    // Posts in the trash keep their slug so it's still theirs if they're restored
+    const blogQuery = this.blogRepository
+      .createQueryBuilder('blog')
+      .withDeleted()
+      .select('blog.slug', 'slug')
+      .where('(blog.slug = :base OR blog.slug LIKE :pattern)', params);
+    const redirectQuery = this.redirectRepository
+      .createQueryBuilder('redirect')
+      .select('redirect.slug', 'slug')
+      .where('(redirect.slug = :base OR redirect.slug LIKE :pattern)', params);
+
+    if (blogId) {
+      blogQuery.andWhere('blog.id != :blogId', params);
+      redirectQuery.andWhere('redirect.blogId != :blogId', params);
+    }
+
+    const rows: { slug: string }[] = [
+      ...(await blogQuery.getRawMany()),
+      ...(await redirectQuery.getRawMany()),
+    ];
+
+    return pickAvailableSlug(base, new Set(rows.map((row) => row.slug)));
+  }
+
+  /**
+   * Keeps a blog's previous slug as a redirect after it moved to a new one
+   */
+  async recordRename(
+    blogId: string,
+    previousSlug: string | null,
+    slug: string,
+  ): Promise<void> {
+    if (previousSlug && previousSlug !== slug) {
+      await this.redirectRepository.upsert({ slug: previousSlug, blogId }, [
+        'slug',
+      ]);
+    }
+
+    // A post renamed back to an earlier title takes its old slug back
+    await this.redirectRepository.delete({ slug, blogId });
+  }
+
+  async resolve(slug: string): Promise<ResolvedSlug | null> {
+    const blog = await this.blogRepository.findOne({
+      select: { id: true },
+      where: { slug },
+    });
+    if (blog) {
+      return { blogId: blog.id, redirectedFrom: null };
+    }
+
+    const redirect = await this.redirectRepository.findOne({ where: { slug } });
+    return redirect ? { blogId: redirect.blogId, redirectedFrom: slug } : null;
+  }
+
+  /**
+   * True when a save lost a race for the same slug - callers regenerate and retry
+   */
+  isSlugConflict(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error as QueryFailedError & { constraint?: string }).constraint ===
+        'IDX_blogs_slug'
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { Resolver, Query, Mutation, Args, Context } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { FileUpload, GraphQLUpload } from 'graphql-upload';
+import { BlogTransferService } from './blog-transfer.service';
+import {
+  BlogExport,
+  BlogExportFormat,
+  BlogImportResult,
+} from '../dto/blog-transfer.response';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { User } from '../../auth/entities/user.entity';
+
+@Resolver()
+export class BlogTransferResolver {
+  constructor(private blogTransferService: BlogTransferService) {}
+
+  /**
+   * Download of all of the current user's posts
+   */
+  @Query(() => BlogExport)
+  @UseGuards(JwtAuthGuard)
+  async exportMyBlogs(
+    @Args('format', {
+      type: () => BlogExportFormat,
+      defaultValue: BlogExportFormat.MARKDOWN,
+    })
+    format: BlogExportFormat,
+    @Context() context: { req: { user: User } },
+  ): Promise<BlogExport> {
+    return this.blogTransferService.export(context.req.user, format);
+  }
+
+  /**
+   * Multipart upload of an exportMyBlogs file (see uploadAttachment for the FileUpload typing)
+   */
+  @Mutation(() => BlogImportResult)
+  @UseGuards(JwtAuthGuard)
+  async importBlogs(
+    @Args('file', { type: () => GraphQLUpload }) file: FileUpload,
+    @Args('dryRun', { defaultValue: false }) dryRun: boolean,
+    @Context() context: { req: { user: User } },
+  ): Promise<BlogImportResult> {
+    return this.blogTransferService.import(
+      await file,
+      context.req.user,
+      dryRun,
+    );
+  }
+}
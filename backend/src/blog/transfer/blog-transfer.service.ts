@@ -0,0 +1,329 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Readable } from 'stream';
+import { FileUpload } from 'graphql-upload';
+import * as JSZip from 'jszip';
+import { Blog, BlogStatus } from '../entities/blog.entity';
+import { BlogService } from '../blog.service';
+import {
+  BlogExport,
+  BlogExportFormat,
+  BlogImportItem,
+  BlogImportOutcome,
+  BlogImportResult,
+} from '../dto/blog-transfer.response';
+import {
+  PortablePost,
+  markdownFilename,
+  parseMarkdownFile,
+  toMarkdownFile,
+  toPortablePost,
+} from './portable-post.util';
+import { User } from '../../auth/entities/user.entity';
+import { readUpload } from '../../common/upload/read-upload.util';
+import { BlogScreeningService } from '../screening/blog-screening.service';
+import { ScreeningSource } from '../screening/screening-step';
+import { ScreeningDecision } from '../entities/screening-rules.entity';
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+const MAX_IMPORT_POSTS = 200;
+// Unzipped sizes, so a small zip can't inflate into something huge
+const MAX_IMPORT_ENTRY_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_UNZIPPED_BYTES = 20 * 1024 * 1024;
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// One post of an upload; parse throws for posts that cannot be imported
+interface ImportEntry {
+  source: string;
+  parse: () => PortablePost;
+}
+
+const checkPostCount = (count: number) => {
+  if (count > MAX_IMPORT_POSTS) {
+    throw new BadRequestException(
+      `An import can contain at most ${MAX_IMPORT_POSTS} posts`,
+    );
+  }
+};
+
+const duplicateKey = (post: { title: string; content: string }) =>
+  `${post.title.trim()}\n${post.content.trim()}`;
+
+/**
+ * Exports an author's posts and imports them again, here or on another instance
+ */
+@Injectable()
+export class BlogTransferService {
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    private blogService: BlogService,
+    private screeningService: BlogScreeningService,
+  ) {}
+
+  /**
+   * Every post of the author except trashed ones, drafts and scheduled posts included
+   */
+  async export(author: User, format: BlogExportFormat): Promise<BlogExport> {
+    const blogs = await this.blogRepository.find({
+      where: { authorId: author.id },
+      relations: ['tags'],
+      order: { createdAt: 'ASC' },
+    });
+    const posts: PortablePost[] = blogs.map((blog) => ({
+      title: blog.title,
+      content: blog.content,
+      status: blog.status,
+      tags: blog.tags.map((tag) => tag.name).sort(),
+      slug: blog.slug,
+      createdAt: blog.createdAt,
+      updatedAt: blog.updatedAt,
+      publishAt: blog.publishAt ?? undefined,
+    }));
+    const basename = `${author.username}-blogs-${new Date()
+      .toISOString()
+      .slice(0, 10)}`;
+
+    if (format === BlogExportFormat.JSON) {
+      const json = JSON.stringify(
+        { exportedAt: new Date().toISOString(), posts },
+        null,
+        2,
+      );
+      return {
+        filename: `${basename}.json`,
+        contentType: 'application/json',
+        base64: Buffer.from(json).toString('base64'),
+        postCount: posts.length,
+      };
+    }
+
+    const zip = new JSZip();
+    for (const post of posts) {
+      zip.file(markdownFilename(post), toMarkdownFile(post));
+    }
+    const data = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+    });
+
+    return {
+      filename: `${basename}.zip`,
+      contentType: 'application/zip',
+      base64: data.toString('base64'),
+      postCount: posts.length,
+    };
+  }
+
+  /**
+   * Creates posts from an export: a Markdown zip, a JSON dump or a single Markdown file
+   * Posts are checked one by one, so a bad file only skips that post. With dryRun
+   * nothing is written and the result shows what an import would do.
+   * Published posts keep their original dates and do not notify anyone.
+   * Posts go through content screening like any new post, without the posting-rate limit
+   */
+  async import(
+    file: FileUpload,
+    author: User,
+    dryRun: boolean,
+  ): Promise<BlogImportResult> {
+    const data = await readUpload(file.createReadStream(), MAX_IMPORT_BYTES);
+    const entries = await this.readEntries(data, file.filename);
+    checkPostCount(entries.length);
+
+    const existing = await this.blogRepository.find({
+      select: ['title', 'content'],
+      where: { authorId: author.id },
+    });
+    const seen = new Set(existing.map(duplicateKey));
+
+    const items: BlogImportItem[] = [];
+    for (const entry of entries) {
+      let post: PortablePost;
+      try {
+        post = entry.parse();
+      } catch (error) {
+        items.push({
+          source: entry.source,
+          outcome: BlogImportOutcome.INVALID,
+          message: error.message,
+        });
+        continue;
+      }
+
+      const item: BlogImportItem = {
+        source: entry.source,
+        title: post.title,
+        status: post.status,
+        outcome: BlogImportOutcome.WOULD_CREATE,
+      };
+      items.push(item);
+
+      const key = duplicateKey(post);
+      if (seen.has(key)) {
+        item.outcome = BlogImportOutcome.DUPLICATE;
+        continue;
+      }
+      seen.add(key);
+
+      if (dryRun) {
+        const verdict = await this.screeningService.screen({
+          title: post.title,
+          content: post.content,
+          authorId: author.id,
+          source: ScreeningSource.IMPORT,
+        });
+        if (verdict.decision === ScreeningDecision.REJECT) {
+          item.outcome = BlogImportOutcome.INVALID;
+          item.message = verdict.reason;
+        } else if (verdict.decision === ScreeningDecision.HOLD) {
+          item.message = `Will be held for review: ${verdict.reason}`;
+        }
+        continue;
+      }
+
+      try {
+        item.blog = await this.createPost(post, author);
+        item.status = item.blog.status;
+        item.outcome = BlogImportOutcome.CREATED;
+        if (item.blog.heldReason) {
+          item.message = `Held for review: ${item.blog.heldReason}`;
+        }
+      } catch (error) {
+        item.outcome = BlogImportOutcome.INVALID;
+        item.message = error.message;
+      }
+    }
+
+    return { dryRun, items };
+  }
+
+  private async inflateEntry(
+    entry: JSZip.JSZipObject,
+    maxBytes: number,
+  ): Promise<Buffer> {
+    try {
+      return await readUpload(
+        entry.nodeStream('nodebuffer') as Readable,
+        maxBytes,
+      );
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) {
+        throw new BadRequestException('The zip file could not be read');
+      }
+      throw new BadRequestException(
+        maxBytes < MAX_IMPORT_ENTRY_BYTES
+          ? `The unzipped files are larger than ${
+              MAX_IMPORT_UNZIPPED_BYTES / 1024 / 1024
+            } MB in total`
+          : `${entry.name} is larger than ${
+              MAX_IMPORT_ENTRY_BYTES / 1024 / 1024
+            } MB unzipped`,
+      );
+    }
+  }
+
+  private async readEntries(
+    data: Buffer,
+    filename: string,
+  ): Promise<ImportEntry[]> {
+    if (data.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(data);
+      } catch (error) {
+        throw new BadRequestException('The zip file could not be read');
+      }
+
+      // Skip folders and metadata such as __MACOSX/ or .DS_Store
+      const files = Object.values(zip.files)
+        .filter(
+          (entry) =>
+            !entry.dir &&
+            /\.(md|markdown)$/i.test(entry.name) &&
+            !entry.name
+              .split('/')
+              .some((part) => part.startsWith('.') || part === '__MACOSX'),
+        )
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      checkPostCount(files.length);
+
+      // One at a time, stopping as soon as an entry or the total gets too big
+      const entries: ImportEntry[] = [];
+      let remaining = MAX_IMPORT_UNZIPPED_BYTES;
+      for (const entry of files) {
+        const text = (
+          await this.inflateEntry(
+            entry,
+            Math.min(MAX_IMPORT_ENTRY_BYTES, remaining),
+          )
+        ).toString('utf8');
+        remaining -= Buffer.byteLength(text);
+        entries.push({
+          source: entry.name,
+          parse: () => parseMarkdownFile(text),
+        });
+      }
+      return entries;
+    }
+
+    const text = data.toString('utf8');
+    if (/^\s*[[{]/.test(text)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch (error) {
+        throw new BadRequestException('The JSON file could not be parsed');
+      }
+      const posts = Array.isArray(json)
+        ? json
+        : (json as { posts?: unknown }).posts;
+      if (!Array.isArray(posts)) {
+        throw new BadRequestException('Expected a list of posts');
+      }
+
+      return posts.map((raw, index) => ({
+        source: `posts[${index}]`,
+        parse: () => {
+          if (!raw || typeof raw !== 'object') {
+            throw new Error('post must be an object');
+          }
+          return toPortablePost(raw);
+        },
+      }));
+    }
+
+    return [{ source: filename, parse: () => parseMarkdownFile(text) }];
+  }
+
+  /**
+   * Scheduled posts whose date has passed are imported as published on that date
+   */
+  private createPost(post: PortablePost, author: User): Promise<Blog> {
+    const isUpcoming =
+      post.status === BlogStatus.SCHEDULED &&
+      post.publishAt?.getTime() > Date.now();
+    const status =
+      post.status === BlogStatus.SCHEDULED && !isUpcoming
+        ? BlogStatus.PUBLISHED
+        : post.status;
+
+    return this.blogService.create(
+      {
+        title: post.title,
+        content: post.content,
+        status,
+        publishAt: isUpcoming ? post.publishAt : undefined,
+        tags: post.tags,
+      },
+      author,
+      {
+        createdAt: post.createdAt,
+        publishedAt: post.publishAt ?? post.createdAt ?? new Date(),
+      },
+      ScreeningSource.IMPORT,
+    );
+  }
+}
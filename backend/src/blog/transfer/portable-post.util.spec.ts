@@ -0,0 +1,47 @@
+import { BlogStatus } from '../entities/blog.entity';
+import {
+  markdownFilename,
+  parseMarkdownFile,
+  toMarkdownFile,
+  toPortablePost,
+} from './portable-post.util';
+
+describe('portable posts', () => {
+  const post = {
+    title: 'Hello: "YAML"',
+    content: '# Heading\n\nBody text',
+    status: BlogStatus.PUBLISHED,
+    tags: ['vue', 'graphql'],
+    slug: 'hello-yaml',
+    createdAt: new Date('2024-05-01T10:00:00.000Z'),
+    publishAt: new Date('2024-05-02T08:30:00.000Z'),
+  };
+
+  it('round-trips through Markdown with front matter', () => {
+    const file = toMarkdownFile(post);
+
+    expect(file.startsWith('---\ntitle:')).toBe(true);
+    expect(parseMarkdownFile(file)).toEqual({ ...post, updatedAt: undefined });
+    expect(markdownFilename(post)).toBe('2024-05-02-hello-yaml.md');
+  });
+
+  it('takes the title from a leading heading when there is no front matter', () => {
+    const parsed = parseMarkdownFile('# My notes\n\nSome text\n');
+
+    expect(parsed.title).toBe('My notes');
+    expect(parsed.content).toBe('Some text');
+    expect(parsed.status).toBe(BlogStatus.PUBLISHED);
+  });
+
+  it('rejects posts that could not be created', () => {
+    expect(() => toPortablePost({ title: 'x', content: ' ' })).toThrow(
+      'content is empty',
+    );
+    expect(() =>
+      toPortablePost({ title: 'x', content: 'y', publishAt: 'soon' }),
+    ).toThrow('publishAt is not a valid date');
+    expect(() =>
+      toPortablePost({ title: 'x', content: 'y', status: 'HIDDEN' }),
+    ).toThrow('status must be one of');
+  });
+});
@@ -0,0 +1,141 @@
+import { parse, stringify } from 'yaml';
+import { BlogStatus } from '../entities/blog.entity';
+
+/**
+ * A post as it appears in exports and imports, independent of ids and authors
+ */
+export interface PortablePost {
+  title: string;
+  content: string;
+  status: BlogStatus;
+  tags: string[];
+  slug?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  publishAt?: Date;
+}
+
+// Same limits as CreateBlogInput, which imports bypass
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const LEADING_HEADING = /^#[ \t]+(.+?)[ \t]*#*[ \t]*(?:\r?\n|$)/;
+
+const toDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} is not a valid date`);
+  }
+  return date;
+};
+
+/**
+ * Checks and normalizes a post read from JSON or front matter
+ * Throws an Error with a readable message when the post cannot be imported
+ */
+export const toPortablePost = (raw: Record<string, unknown>): PortablePost => {
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (!title) {
+    throw new Error('title is missing');
+  }
+
+  const content = typeof raw.content === 'string' ? raw.content.trim() : '';
+  if (!content) {
+    throw new Error('content is empty');
+  }
+
+  const status = raw.status ?? BlogStatus.PUBLISHED;
+  if (!Object.values(BlogStatus).includes(status as BlogStatus)) {
+    throw new Error(
+      `status must be one of ${Object.values(BlogStatus).join(', ')}`,
+    );
+  }
+
+  const tags = raw.tags ?? [];
+  if (
+    !Array.isArray(tags) ||
+    tags.length > MAX_TAGS ||
+    tags.some((tag) => typeof tag !== 'string' || tag.length > MAX_TAG_LENGTH)
+  ) {
+    throw new Error(
+      `tags must be a list of at most ${MAX_TAGS} names of up to ${MAX_TAG_LENGTH} characters`,
+    );
+  }
+
+  return {
+    title,
+    content,
+    status: status as BlogStatus,
+    tags,
+    slug: typeof raw.slug === 'string' ? raw.slug : undefined,
+    createdAt: toDate(raw.createdAt, 'createdAt'),
+    updatedAt: toDate(raw.updatedAt, 'updatedAt'),
+    publishAt: toDate(raw.publishAt, 'publishAt'),
+  };
+};
+
+/**
+ * Markdown file with YAML front matter (title, status, dates, tags) above the content
+ */
+export const toMarkdownFile = (post: PortablePost): string => {
+  const frontMatter: Record<string, unknown> = {
+    title: post.title,
+    slug: post.slug,
+    status: post.status,
+    createdAt: post.createdAt?.toISOString(),
+    updatedAt: post.updatedAt?.toISOString(),
+    publishAt: post.publishAt?.toISOString(),
+    tags: post.tags,
+  };
+  Object.keys(frontMatter).forEach((key) => {
+    if (frontMatter[key] === undefined) {
+      delete frontMatter[key];
+    }
+  });
+
+  return `---\n${stringify(frontMatter)}---\n\n${post.content.trim()}\n`;
+};
+
+/**
+ * Reads a file written by toMarkdownFile
+ * Hand-written files may skip the front matter title and start with a "# Title" heading
+ */
+export const parseMarkdownFile = (text: string): PortablePost => {
+  const source = text.replace(/^\uFEFF/, '');
+  const match = source.match(FRONT_MATTER);
+  let frontMatter: unknown = {};
+  if (match) {
+    try {
+      frontMatter = parse(match[1]) ?? {};
+    } catch (error) {
+      throw new Error('front matter is not valid YAML');
+    }
+    if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+      throw new Error('front matter must be a YAML mapping');
+    }
+  }
+
+  const raw = { ...(frontMatter as Record<string, unknown>) };
+  let content = match ? source.slice(match[0].length) : source;
+  const heading = content.trimStart().match(LEADING_HEADING);
+  if (!raw.title && heading) {
+    raw.title = heading[1];
+    content = content.trimStart().slice(heading[0].length);
+  }
+
+  return toPortablePost({ ...raw, content });
+};
+
+/**
+ * File name inside the export zip, e.g. 2024-05-01-my-first-post.md
+ */
+export const markdownFilename = (post: PortablePost): string => {
+  const date = (post.publishAt ?? post.createdAt ?? new Date())
+    .toISOString()
+    .slice(0, 10);
+  return `${date}-${post.slug || 'post'}.md`;
+};
@@ -0,0 +1,41 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Blog, BlogStatus } from '../entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Restricts a blog query to posts the viewer may see:
+ * published posts that aren't hidden by a moderator for everyone,
+ * plus the viewer's own drafts, scheduled and hidden posts
+ */
+export const applyBlogVisibility = <T>(
+  query: SelectQueryBuilder<T>,
+  viewer?: User | null,
+  alias = 'blog',
+): SelectQueryBuilder<T> => {
+  if (viewer?.id) {
+    return query.andWhere(
+      `((${alias}.status = :publishedStatus AND ${alias}.hiddenAt IS NULL) OR ${alias}.authorId = :viewerId)`,
+      { publishedStatus: BlogStatus.PUBLISHED, viewerId: viewer.id },
+    );
+  }
+
+  return query.andWhere(
+    `${alias}.status = :publishedStatus AND ${alias}.hiddenAt IS NULL`,
+    { publishedStatus: BlogStatus.PUBLISHED },
+  );
+};
+
+/**
+ * Whether a post is out in public: published and not hidden by a moderator
+ * Reactions, comments, views and notifications are limited to public posts
+ */
+export const isBlogPublic = (blog: Blog): boolean => {
+  return blog.status === BlogStatus.PUBLISHED && !blog.hiddenAt;
+};
+
+/**
+ * In-memory counterpart of applyBlogVisibility for already-loaded blogs
+ */
+export const isBlogVisibleTo = (blog: Blog, viewer?: User | null): boolean => {
+  return isBlogPublic(blog) || blog.authorId === viewer?.id;
+};
@@ -0,0 +1,96 @@
+import { diffLines } from './line-diff.util';
+
+describe('diffLines', () => {
+  it('should report no changes for identical text', () => {
+    const diff = diffLines('a\nb\nc', 'a\nb\nc');
+    expect(diff.every((entry) => entry.type === 'UNCHANGED')).toBe(true);
+    expect(diff).toHaveLength(3);
+  });
+
+  it('should detect added and removed lines', () => {
+    const diff = diffLines('a\nb\nc', 'a\nc\nd');
+    expect(diff.map((entry) => [entry.type, entry.content])).toEqual([
+      ['UNCHANGED', 'a'],
+      ['REMOVED', 'b'],
+      ['UNCHANGED', 'c'],
+      ['ADDED', 'd'],
+    ]);
+  });
+
+  it('should number lines on each side', () => {
+    const diff = diffLines('x', 'y\nx');
+    expect(diff).toEqual([
+      { type: 'ADDED', content: 'y', oldLineNumber: null, newLineNumber: 1 },
+      { type: 'UNCHANGED', content: 'x', oldLineNumber: 1, newLineNumber: 2 },
+    ]);
+  });
+
+  it('should rebuild both sides from the edit script', () => {
+    const oldText = 'one\ntwo\nthree\nfour\nfive';
+    const newText = 'zero\none\nthree\nfour!\nfive\nsix';
+    const diff = diffLines(oldText, newText);
+    const oldSide = diff
+      .filter((e) => e.type !== 'ADDED')
+      .map((e) => e.content);
+    const newSide = diff
+      .filter((e) => e.type !== 'REMOVED')
+      .map((e) => e.content);
+    expect(oldSide.join('\n')).toBe(oldText);
+    expect(newSide.join('\n')).toBe(newText);
+  });
+
+  it('should find small edits in large texts', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const edited = [...lines];
+    edited[10000] = 'changed';
+
+    const diff = diffLines(lines.join('\n'), edited.join('\n'));
+    expect(diff.filter((e) => e.type !== 'UNCHANGED')).toEqual([
+      {
+        type: 'REMOVED',
+        content: 'line 10000',
+        oldLineNumber: 10001,
+        newLineNumber: null,
+      },
+      {
+        type: 'ADDED',
+        content: 'changed',
+        oldLineNumber: null,
+        newLineNumber: 10001,
+      },
+    ]);
+  });
+
+  it('should rebuild both sides of a large text with scattered edits', () => {
+    const oldLines = Array.from({ length: 5000 }, (_, i) => `line ${i}`);
+    const newLines = oldLines.map((line, i) => (i % 10 ? line : `${line}!`));
+
+    const diff = diffLines(oldLines.join('\n'), newLines.join('\n'));
+    expect(diff.filter((e) => e.type === 'ADDED')).toHaveLength(500);
+    expect(
+      diff.filter((e) => e.type !== 'ADDED').map((e) => e.content),
+    ).toEqual(oldLines);
+    expect(
+      diff.filter((e) => e.type !== 'REMOVED').map((e) => e.content),
+    ).toEqual(newLines);
+  });
+
+  it('should replace the whole block when a large text is rewritten', () => {
+    const oldText = Array.from({ length: 20000 }, (_, i) => `old ${i}`);
+    const newText = Array.from({ length: 20000 }, (_, i) => `new ${i}`);
+
+    const diff = diffLines(
+      ['title', ...oldText].join('\n'),
+      ['title', ...newText].join('\n'),
+    );
+    expect(diff).toHaveLength(40001);
+    expect(diff[0]).toEqual({
+      type: 'UNCHANGED',
+      content: 'title',
+      oldLineNumber: 1,
+      newLineNumber: 1,
+    });
+    expect(diff[1]).toMatchObject({ type: 'REMOVED', oldLineNumber: 2 });
+    expect(diff[20001]).toMatchObject({ type: 'ADDED', newLineNumber: 2 });
+  });
+});
@@ -0,0 +1,179 @@
+export type LineDiffOp = 'ADDED' | 'REMOVED' | 'UNCHANGED';
+
+export interface LineDiffEntry {
+  type: LineDiffOp;
+  content: string;
+  // 1-based line numbers; null on the side the line doesn't exist
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+}
+
+// Past this many changed lines the changed block is shown as removed, then added;
+// Myers' memory grows with the square of the edit distance
+const MAX_EDIT_DISTANCE = 2000;
+
+const unchanged = (
+  content: string,
+  oldLineNumber: number,
+  newLineNumber: number,
+): LineDiffEntry => ({
+  type: 'UNCHANGED',
+  content,
+  oldLineNumber,
+  newLineNumber,
+});
+
+/**
+ * Line-level diff using Myers' O(ND) algorithm
+ * Returns the full edit script (unchanged lines included) in document order
+ */
+export const diffLines = (
+  oldText: string,
+  newText: string,
+): LineDiffEntry[] => {
+  const a = oldText.split(/\r?\n/);
+  const b = newText.split(/\r?\n/);
+
+  // Lines shared at the start and end never need the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middle = (
+    shortestEditScript(oldMiddle, newMiddle) ??
+    replaceBlock(oldMiddle, newMiddle)
+  ).map((entry) => ({
+    ...entry,
+    oldLineNumber:
+      entry.oldLineNumber === null ? null : entry.oldLineNumber + prefix,
+    newLineNumber:
+      entry.newLineNumber === null ? null : entry.newLineNumber + prefix,
+  }));
+
+  return [
+    ...a.slice(0, prefix).map((line, i) => unchanged(line, i + 1, i + 1)),
+    ...middle,
+    ...a
+      .slice(a.length - suffix)
+      .map((line, i) =>
+        unchanged(line, a.length - suffix + i + 1, b.length - suffix + i + 1),
+      ),
+  ];
+};
+
+const replaceBlock = (a: string[], b: string[]): LineDiffEntry[] => [
+  ...a.map(
+    (content, i): LineDiffEntry => ({
+      type: 'REMOVED',
+      content,
+      oldLineNumber: i + 1,
+      newLineNumber: null,
+    }),
+  ),
+  ...b.map(
+    (content, i): LineDiffEntry => ({
+      type: 'ADDED',
+      content,
+      oldLineNumber: null,
+      newLineNumber: i + 1,
+    }),
+  ),
+];
+
+/**
+ * Myers' search; null when the texts differ by more than MAX_EDIT_DISTANCE lines
+ */
+const shortestEditScript = (
+  a: string[],
+  b: string[],
+): LineDiffEntry[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+
+  // v[k + offset] = furthest x reached on diagonal k. Step d only reads diagonals
+  // -d-1..d+1, so that window of v is all the backtrack needs from each step
+  const v = new Array<number>(2 * offset + 1).fill(0);
+  const trace: number[][] = [];
+  const at = (d: number, k: number) => trace[d][k + d + 1];
+
+  let found = false;
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])) {
+        x = v[k + 1 + offset]; // move down (insertion)
+      } else {
+        x = v[k - 1 + offset] + 1; // move right (deletion)
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const entries: LineDiffEntry[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(d, k - 1) < at(d, k + 1)) ? k + 1 : k - 1;
+    const prevX = at(d, prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      entries.push(unchanged(a[x - 1], x, y));
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        entries.push({
+          type: 'ADDED',
+          content: b[y - 1],
+          oldLineNumber: null,
+          newLineNumber: y,
+        });
+      } else {
+        entries.push({
+          type: 'REMOVED',
+          content: a[x - 1],
+          oldLineNumber: x,
+          newLineNumber: null,
+        });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return entries.reverse();
+};
@@ -0,0 +1,33 @@
+import { MAX_SLUG_LENGTH, pickAvailableSlug, slugify } from './slug.util';
+
+describe('slugify', () => {
+  it('lowercases, folds accents and hyphenates punctuation', () => {
+    expect(slugify('Héllo, World!')).toBe('hello-world');
+    expect(slugify("  Don't   panic -- it's fine ")).toBe(
+      'dont-panic-its-fine',
+    );
+  });
+
+  it('falls back when nothing usable is left', () => {
+    expect(slugify('🎉🎉')).toBe('post');
+  });
+
+  it('cuts long titles at a word boundary', () => {
+    const slug = slugify('word '.repeat(40));
+
+    expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    expect(slug.endsWith('word')).toBe(true);
+  });
+});
+
+describe('pickAvailableSlug', () => {
+  it('keeps the base when it is free', () => {
+    expect(pickAvailableSlug('hello', new Set(['hello-2']))).toBe('hello');
+  });
+
+  it('appends the first free numeric suffix', () => {
+    expect(pickAvailableSlug('hello', new Set(['hello', 'hello-2']))).toBe(
+      'hello-3',
+    );
+  });
+});
@@ -0,0 +1,44 @@
+export const MAX_SLUG_LENGTH = 80;
+
+// Used when a title has no usable characters at all, e.g. only emoji
+const FALLBACK_SLUG = 'post';
+
+/**
+ * Turns a title into a URL-safe slug: "Héllo, World!" -> "hello-world"
+ * Accents are folded to ASCII; long titles are cut at a word boundary
+ */
+export const slugify = (title: string): string => {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug || FALLBACK_SLUG;
+  }
+
+  const cut = slug.slice(0, MAX_SLUG_LENGTH + 1);
+  const lastHyphen = cut.lastIndexOf('-');
+  return (lastHyphen > 0 ? cut.slice(0, lastHyphen) : cut.slice(0, -1)).replace(
+    /-+$/,
+    '',
+  );
+};
+
+/**
+ * Picks the first free slug among base, base-2, base-3, ...
+ */
+export const pickAvailableSlug = (base: string, taken: Set<string>): string => {
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) {
+    suffix++;
+  }
+  return `${base}-${suffix}`;
+};
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Bookmark } from './entities/bookmark.entity';
+import { BookmarkService } from './bookmark.service';
+import { BookmarkResolver, BlogBookmarkResolver } from './bookmark.resolver';
+import { BlogModule } from '../blog/blog.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Bookmark]), BlogModule],
+  providers: [BookmarkService, BookmarkResolver, BlogBookmarkResolver],
+})
+export class BookmarkModule {}
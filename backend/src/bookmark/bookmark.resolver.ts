@@ -0,0 +1,109 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Args,
+  ID,
+  Int,
+  Context,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { BookmarkService } from './bookmark.service';
+import { BlogRevisionService } from '../blog/revisions/blog-revision.service';
+import { Bookmark } from './entities/bookmark.entity';
+import { BookmarkConnection } from './dto/bookmark-connection.response';
+import { Blog } from '../blog/entities/blog.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+import { getRequestLoader } from '../common/dataloader/request-loader.util';
+
+@Resolver(() => Bookmark)
+export class BookmarkResolver {
+  constructor(
+    private bookmarkService: BookmarkService,
+    private revisionService: BlogRevisionService,
+  ) {}
+
+  @Mutation(() => Bookmark)
+  @UseGuards(JwtAuthGuard)
+  async bookmark(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('note', { nullable: true }) note: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Bookmark> {
+    return this.bookmarkService.bookmark(blogId, note, context.req.user);
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard)
+  async removeBookmark(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<boolean> {
+    return this.bookmarkService.remove(blogId, context.req.user);
+  }
+
+  /**
+   * The current user's reading list, most recently saved first
+   */
+  @Query(() => BookmarkConnection)
+  @UseGuards(JwtAuthGuard)
+  async myBookmarks(
+    @Args('first', { type: () => Int, nullable: true }) first: number,
+    @Args('after', { nullable: true }) after: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<BookmarkConnection> {
+    return this.bookmarkService.findConnection(context.req.user, first, after);
+  }
+
+  /**
+   * True when the post's title or content was edited after it was saved
+   */
+  @ResolveField(() => Boolean)
+  async updatedSinceSaved(
+    @Parent() bookmark: Bookmark,
+    @Context() context: object,
+  ): Promise<boolean> {
+    if (bookmark.savedRevision === null) {
+      return false;
+    }
+
+    const latestRevision = await getRequestLoader<string, number>(
+      context,
+      'latestRevisionNumbers',
+      (blogIds) => this.revisionService.latestRevisionNumbers(blogIds),
+    ).load(bookmark.blogId);
+
+    return latestRevision > bookmark.savedRevision;
+  }
+}
+
+/**
+ * Adds the viewerHasBookmarked field to Blog
+ */
+@Resolver(() => Blog)
+export class BlogBookmarkResolver {
+  constructor(private bookmarkService: BookmarkService) {}
+
+  /**
+   * Whether the current user saved the post (false when signed out)
+   */
+  @ResolveField(() => Boolean)
+  async viewerHasBookmarked(
+    @Parent() blog: Blog,
+    @Context() context: { req?: { user?: User } },
+  ): Promise<boolean> {
+    const viewer = context.req?.user;
+    if (!viewer?.id) {
+      return false;
+    }
+
+    return getRequestLoader<string, boolean>(
+      context,
+      `viewerHasBookmarked:${viewer.id}`,
+      (blogIds) => this.bookmarkService.hasBookmarked(blogIds, viewer.id),
+    ).load(blog.id);
+  }
+}
@@ -0,0 +1,147 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Bookmark } from './entities/bookmark.entity';
+import { BookmarkConnection } from './dto/bookmark-connection.response';
+import { BlogService } from '../blog/blog.service';
+import { BlogRevisionService } from '../blog/revisions/blog-revision.service';
+import { applyBlogVisibility } from '../blog/utils/blog-visibility.util';
+import { User } from '../auth/entities/user.entity';
+import {
+  decodeDateCursor,
+  encodeCursor,
+  normalizePageSize,
+} from '../common/pagination/cursor.util';
+
+// Truncated to milliseconds so it round-trips through JS Dates in cursors
+const ORDER_EXPRESSION = "date_trunc('milliseconds', bookmark.createdAt)";
+const MAX_NOTE_LENGTH = 500;
+
+@Injectable()
+export class BookmarkService {
+  constructor(
+    @InjectRepository(Bookmark)
+    private bookmarkRepository: Repository<Bookmark>,
+    private blogService: BlogService,
+    private revisionService: BlogRevisionService,
+  ) {}
+
+  /**
+   * Saves a post to the user's reading list
+   * Saving it again replaces the note and marks the current revision as seen
+   */
+  async bookmark(
+    blogId: string,
+    note: string | null,
+    user: User,
+  ): Promise<Bookmark> {
+    const blog = await this.blogService.findVisible(blogId, user);
+    const trimmedNote = note?.trim() || null;
+    if (trimmedNote && trimmedNote.length > MAX_NOTE_LENGTH) {
+      throw new BadRequestException(
+        `Notes can be at most ${MAX_NOTE_LENGTH} characters`,
+      );
+    }
+
+    const [savedRevision] = await this.revisionService.latestRevisionNumbers([
+      blog.id,
+    ]);
+
+    await this.bookmarkRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Bookmark)
+      .values({
+        userId: user.id,
+        blogId: blog.id,
+        note: trimmedNote,
+        savedRevision,
+      })
+      .orUpdate(['note', 'savedRevision'], ['userId', 'blogId'])
+      .execute();
+
+    return this.bookmarkRepository.findOne({
+      where: { userId: user.id, blogId: blog.id },
+      relations: ['blog', 'blog.author'],
+    });
+  }
+
+  async remove(blogId: string, user: User): Promise<boolean> {
+    const result = await this.bookmarkRepository.delete({
+      userId: user.id,
+      blogId,
+    });
+    return result.affected > 0;
+  }
+
+  /**
+   * Cursor-paginated reading list, most recently saved first
+   * Posts the user can no longer see (trashed or unpublished) are left out
+   */
+  async findConnection(
+    user: User,
+    first?: number,
+    after?: string,
+  ): Promise<BookmarkConnection> {
+    const pageSize = normalizePageSize(first);
+    const query = this.bookmarkRepository
+      .createQueryBuilder('bookmark')
+      .innerJoinAndSelect('bookmark.blog', 'blog')
+      .leftJoinAndSelect('blog.author', 'author')
+      .where('bookmark.userId = :userId', { userId: user.id });
+    applyBlogVisibility(query, user);
+
+    const totalCount = await query.getCount();
+
+    if (after) {
+      const cursor = decodeDateCursor(after);
+      query.andWhere(
+        `(${ORDER_EXPRESSION} < :cursorValue OR (${ORDER_EXPRESSION} = :cursorValue AND bookmark.id < :cursorId))`,
+        { cursorValue: cursor.value, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const bookmarks = await query
+      .orderBy(ORDER_EXPRESSION, 'DESC')
+      .addOrderBy('bookmark.id', 'DESC')
+      .limit(pageSize + 1)
+      .getMany();
+
+    const hasNextPage = bookmarks.length > pageSize;
+    const edges = bookmarks.slice(0, pageSize).map((bookmark) => ({
+      cursor: encodeCursor({
+        value: bookmark.createdAt.toISOString(),
+        id: bookmark.id,
+      }),
+      node: bookmark,
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  /**
+   * Batch loader for Blog.viewerHasBookmarked
+   */
+  async hasBookmarked(
+    blogIds: readonly string[],
+    userId: string,
+  ): Promise<boolean[]> {
+    const rows = await this.bookmarkRepository
+      .createQueryBuilder('bookmark')
+      .select('bookmark.blogId', 'blogId')
+      .where('bookmark.userId = :userId', { userId })
+      .andWhere('bookmark.blogId IN (:...blogIds)', { blogIds })
+      .getRawMany();
+
+    const bookmarked = new Set(rows.map((row) => row.blogId));
+    return blogIds.map((blogId) => bookmarked.has(blogId));
+  }
+}
@@ -0,0 +1,24 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+import { Bookmark } from '../entities/bookmark.entity';
+import { PageInfo } from '../../common/pagination/page-info.dto';
+
+@ObjectType()
+export class BookmarkEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Bookmark)
+  node: Bookmark;
+}
+
+@ObjectType()
+export class BookmarkConnection {
+  @Field(() => [BookmarkEdge])
+  edges: BookmarkEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * A post on a user's reading list
+ */
+@ObjectType()
+@Entity('bookmarks')
+@Unique('UQ_bookmarks_user_blog', ['userId', 'blogId'])
+@Index(['userId', 'createdAt'])
+export class Bookmark {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Field(() => ID)
+  @Column()
+  blogId: string;
+
+  @Field(() => Blog)
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  /**
+   * Private note for the reader, e.g. why the post was saved
+   */
+  @Field({ nullable: true })
+  @Column('text', { nullable: true })
+  note?: string | null;
+
+  /**
+   * The post's latest revision number when it was saved; only edits add revisions, so a
+   * newer one means it was edited since (Blog.version also moves on publish, trash, etc.)
+   * Null on bookmarks saved before this was tracked, until they are saved again
+   */
+  @Column({ type: 'int', nullable: true })
+  savedRevision: number | null;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Comment } from './entities/comment.entity';
+import { CommentService } from './comment.service';
+import { CommentResolver } from './comment.resolver';
+import { BlogModule } from '../blog/blog.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Comment]), BlogModule],
+  providers: [CommentService, CommentResolver],
+  exports: [CommentService],
+})
+export class CommentModule {}
@@ -0,0 +1,100 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Subscription,
+  Args,
+  ID,
+  Int,
+  Context,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { CommentService, commentAddedTrigger } from './comment.service';
+import { Comment } from './entities/comment.entity';
+import { AddCommentInput } from './dto/add-comment.input';
+import { EditCommentInput } from './dto/edit-comment.input';
+import { CommentConnection } from './dto/comment-connection.response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+import { NotificationService } from '../notification/notification.service';
+import { getRequestLoader } from '../common/dataloader/request-loader.util';
+
+@Resolver(() => Comment)
+export class CommentResolver {
+  constructor(
+    private commentService: CommentService,
+    private notificationService: NotificationService,
+  ) {}
+
+  @Query(() => CommentConnection)
+  @UseGuards(OptionalJwtAuthGuard)
+  async comments(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('parentId', { type: () => ID, nullable: true }) parentId?: string,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Context() context?: { req: { user?: User } },
+  ): Promise<CommentConnection> {
+    return this.commentService.findConnection(
+      blogId,
+      parentId,
+      first,
+      after,
+      context.req.user,
+    );
+  }
+
+  @Mutation(() => Comment)
+  @UseGuards(JwtAuthGuard)
+  async addComment(
+    @Args('input') input: AddCommentInput,
+    @Context() context: { req: { user: User } },
+  ): Promise<Comment> {
+    return this.commentService.add(input, context.req.user);
+  }
+
+  @Mutation(() => Comment)
+  @UseGuards(JwtAuthGuard)
+  async editComment(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('input') input: EditCommentInput,
+    @Context() context: { req: { user: User } },
+  ): Promise<Comment> {
+    return this.commentService.edit(id, input, context.req.user);
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard)
+  async deleteComment(
+    @Args('id', { type: () => ID }) id: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<boolean> {
+    return this.commentService.remove(id, context.req.user);
+  }
+
+  /**
+   * Live comments for one blog (top-level comments and replies)
+   * Each blog has its own trigger, so subscribers only receive their thread
+   */
+  @Subscription(() => Comment)
+  commentAdded(@Args('blogId', { type: () => ID }) blogId: string) {
+    return this.notificationService
+      .getPubSub()
+      .asyncIterator(commentAddedTrigger(blogId));
+  }
+
+  @ResolveField(() => Int)
+  async replyCount(
+    @Parent() comment: Comment,
+    @Context() context: object,
+  ): Promise<number> {
+    return getRequestLoader<string, number>(
+      context,
+      'commentReplyCounts',
+      (commentIds) => this.commentService.countReplies(commentIds),
+    ).load(comment.id);
+  }
+}
@@ -0,0 +1,70 @@
+import { Repository } from 'typeorm';
+import { CommentService } from './comment.service';
+import { BlogService } from '../blog/blog.service';
+import { NotificationQueueService } from '../notification/queue/notification-queue.service';
+import { NotificationService } from '../notification/notification.service';
+import { Blog, BlogStatus } from '../blog/entities/blog.entity';
+import { Comment } from './entities/comment.entity';
+import { User } from '../auth/entities/user.entity';
+
+const blog = {
+  id: 'blog-1',
+  authorId: 'author',
+  status: BlogStatus.PUBLISHED,
+} as Blog;
+
+const parent = {
+  id: 'parent',
+  blogId: blog.id,
+  authorId: 'reader',
+  deletedAt: null,
+} as Comment;
+
+const reply = {
+  id: 'reply',
+  blogId: blog.id,
+  parentId: parent.id,
+  authorId: blog.authorId,
+  createdAt: new Date(),
+  author: { id: blog.authorId, username: 'author' },
+} as Comment;
+
+describe('CommentService', () => {
+  it("enqueues a notification when the post's author replies on their own post", async () => {
+    const comments: Record<string, Comment> = {
+      [parent.id]: parent,
+      [reply.id]: reply,
+    };
+    const commentRepository: Partial<Repository<Comment>> = {
+      create: jest.fn().mockImplementation((fields) => fields),
+      save: jest.fn().mockResolvedValue({ id: reply.id }),
+      findOne: jest
+        .fn()
+        .mockImplementation(async ({ where }) => comments[where.id] ?? null),
+    };
+    const blogService: Partial<BlogService> = {
+      findVisible: jest.fn(async () => blog),
+    };
+    const notificationQueue: Partial<NotificationQueueService> = {
+      enqueueCommentAddedEvent: jest.fn(),
+    };
+    const notificationService: Partial<NotificationService> = {
+      publishLiveEvent: jest.fn(),
+    };
+    const service = new CommentService(
+      commentRepository as Repository<Comment>,
+      blogService as BlogService,
+      notificationQueue as NotificationQueueService,
+      notificationService as NotificationService,
+    );
+
+    await service.add(
+      { blogId: blog.id, parentId: parent.id, content: 'Thanks!' },
+      { id: blog.authorId } as User,
+    );
+
+    expect(notificationQueue.enqueueCommentAddedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ commentId: reply.id, authorId: blog.authorId }),
+    );
+  });
+});
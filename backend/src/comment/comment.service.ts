@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Comment } from './entities/comment.entity';
+import { AddCommentInput } from './dto/add-comment.input';
+import { EditCommentInput } from './dto/edit-comment.input';
+import { CommentConnection } from './dto/comment-connection.response';
+import { BlogService } from '../blog/blog.service';
+import { User } from '../auth/entities/user.entity';
+import { NotificationQueueService } from '../notification/queue/notification-queue.service';
+import { NotificationService } from '../notification/notification.service';
+import {
+  decodeDateCursor,
+  encodeCursor,
+  normalizePageSize,
+} from '../common/pagination/cursor.util';
+import { isBlogPublic } from '../blog/utils/blog-visibility.util';
+
+// Truncated to milliseconds so cursor values round-trip through JS Dates
+const ORDER_EXPRESSION = "date_trunc('milliseconds', comment.createdAt)";
+
+/**
+ * PubSub trigger for a blog's commentAdded subscription
+ */
+export const commentAddedTrigger = (blogId: string) => `commentAdded.${blogId}`;
+
+@Injectable()
+export class CommentService {
+  constructor(
+    @InjectRepository(Comment)
+    private commentRepository: Repository<Comment>,
+    private blogService: BlogService,
+    private notificationQueue: NotificationQueueService,
+    private notificationService: NotificationService,
+  ) {}
+
+  async add(input: AddCommentInput, author: User): Promise<Comment> {
+    const blog = await this.blogService.findVisible(input.blogId, author);
+
+    if (!isBlogPublic(blog)) {
+      throw new BadRequestException(
+        'Comments are only allowed on published blogs',
+      );
+    }
+
+    if (input.parentId) {
+      const parent = await this.findOne(input.parentId);
+
+      if (parent.blogId !== blog.id) {
+        throw new BadRequestException(
+          'Parent comment belongs to a different blog',
+        );
+      }
+
+      if (parent.deletedAt) {
+        throw new BadRequestException('Cannot reply to a deleted comment');
+      }
+    }
+
+    const comment = this.commentRepository.create({
+      content: input.content,
+      blogId: blog.id,
+      parentId: input.parentId ?? null,
+      authorId: author.id,
+    });
+    const savedComment = await this.commentRepository.save(comment);
+    const commentWithAuthor = await this.findOne(savedComment.id);
+
+    await this.publishCommentAdded(commentWithAuthor);
+
+    // The worker picks the recipients (the blog's author, the parent comment's author)
+    // and leaves out the commenter, so authors replying on their own posts are covered too
+    await this.notificationQueue.enqueueCommentAddedEvent({
+      commentId: commentWithAuthor.id,
+      blogId: blog.id,
+      authorId: author.id,
+      createdAt: commentWithAuthor.createdAt,
+    });
+
+    return commentWithAuthor;
+  }
+
+  private async publishCommentAdded(comment: Comment): Promise<void> {
+    const { author, ...fields } = comment;
+
+    // Only the public author fields travel with the event
+    await this.notificationService.publishLiveEvent(
+      commentAddedTrigger(comment.blogId),
+      {
+        commentAdded: {
+          ...fields,
+          author: {
+            id: author.id,
+            email: author.email,
+            username: author.username,
+            createdAt: author.createdAt,
+            updatedAt: author.updatedAt,
+          },
+        },
+      },
+    );
+  }
+
+  async edit(
+    id: string,
+    input: EditCommentInput,
+    user: User,
+  ): Promise<Comment> {
+    const comment = await this.findOne(id);
+
+    if (comment.authorId !== user.id) {
+      throw new UnauthorizedException('You can only edit your own comments');
+    }
+
+    if (comment.deletedAt) {
+      throw new NotFoundException(`Comment with ID ${id} not found`);
+    }
+
+    comment.content = input.content;
+    comment.editedAt = new Date();
+    return this.commentRepository.save(comment);
+  }
+
+  /**
+   * Removes a comment (allowed for its author and the blog's author)
+   * Comments with replies are blanked and marked deleted so the replies keep their parent
+   */
+  async remove(id: string, user: User): Promise<boolean> {
+    const comment = await this.findOne(id);
+    const blog = await this.blogService.findOne(comment.blogId);
+
+    if (comment.authorId !== user.id && blog.authorId !== user.id) {
+      throw new UnauthorizedException('You can only delete your own comments');
+    }
+
+    const hasReplies = await this.commentRepository.exist({
+      where: { parentId: comment.id },
+    });
+
+    if (hasReplies) {
+      comment.content = '';
+      comment.deletedAt = new Date();
+      await this.commentRepository.save(comment);
+    } else {
+      await this.commentRepository.remove(comment);
+    }
+
+    return true;
+  }
+
+  /**
+   * Cursor-paginated comments of a blog, oldest first
+   * Returns top-level comments, or the direct replies of parentId when given
+   */
+  async findConnection(
+    blogId: string,
+    parentId?: string,
+    first?: number,
+    after?: string,
+    viewer?: User | null,
+  ): Promise<CommentConnection> {
+    // Throws for blogs the viewer can't see
+    await this.blogService.findVisible(blogId, viewer);
+
+    const pageSize = normalizePageSize(first);
+    const query = this.commentRepository
+      .createQueryBuilder('comment')
+      .leftJoinAndSelect('comment.author', 'author')
+      .where('comment.blogId = :blogId', { blogId });
+
+    if (parentId) {
+      query.andWhere('comment.parentId = :parentId', { parentId });
+    } else {
+      query.andWhere('comment.parentId IS NULL');
+    }
+
+    const totalCount = await query.getCount();
+
+    if (after) {
+      const cursor = decodeDateCursor(after);
+      query.andWhere(
+        `(${ORDER_EXPRESSION} > :cursorValue OR (${ORDER_EXPRESSION} = :cursorValue AND comment.id > :cursorId))`,
+        { cursorValue: cursor.value, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const comments = await query
+      .orderBy(ORDER_EXPRESSION, 'ASC')
+      .addOrderBy('comment.id', 'ASC')
+      .limit(pageSize + 1)
+      .getMany();
+
+    const hasNextPage = comments.length > pageSize;
+    const edges = comments.slice(0, pageSize).map((comment) => ({
+      cursor: encodeCursor({
+        value: comment.createdAt.toISOString(),
+        id: comment.id,
+      }),
+      node: comment,
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  /**
+   * Batch loader for Comment.replyCount
+   */
+  async countReplies(commentIds: readonly string[]): Promise<number[]> {
+    const rows = await this.commentRepository
+      .createQueryBuilder('comment')
+      .select('comment.parentId', 'parentId')
+      .addSelect('COUNT(*)', 'count')
+      .where('comment.parentId IN (:...commentIds)', { commentIds })
+      .groupBy('comment.parentId')
+      .getRawMany();
+
+    const counts = new Map<string, number>(
+      rows.map((row) => [row.parentId, parseInt(row.count, 10)]),
+    );
+
+    return commentIds.map((id) => counts.get(id) ?? 0);
+  }
+
+  async findOne(id: string): Promise<Comment> {
+    const comment = await this.commentRepository.findOne({
+      where: { id },
+      relations: ['author'],
+    });
+
+    if (!comment) {
+      throw new NotFoundException(`Comment with ID ${id} not found`);
+    }
+
+    return comment;
+  }
+}
@@ -0,0 +1,29 @@
+import { InputType, Field, ID } from '@nestjs/graphql';
+import {
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+@InputType()
+export class AddCommentInput {
+  @Field(() => ID)
+  @IsUUID()
+  blogId: string;
+
+  /**
+   * Comment being replied to; omit for a top-level comment
+   */
+  @Field(() => ID, { nullable: true })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  @Field()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(5000)
+  content: string;
+}
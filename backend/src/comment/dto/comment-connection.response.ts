@@ -0,0 +1,24 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+import { Comment } from '../entities/comment.entity';
+import { PageInfo } from '../../common/pagination/page-info.dto';
+
+@ObjectType()
+export class CommentEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Comment)
+  node: Comment;
+}
+
+@ObjectType()
+export class CommentConnection {
+  @Field(() => [CommentEdge])
+  edges: CommentEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
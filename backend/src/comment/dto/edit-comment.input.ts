@@ -0,0 +1,11 @@
+import { InputType, Field } from '@nestjs/graphql';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+@InputType()
+export class EditCommentInput {
+  @Field()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(5000)
+  content: string;
+}
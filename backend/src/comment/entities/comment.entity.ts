@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+@ObjectType()
+@Entity('comments')
+@Index(['blogId', 'parentId', 'createdAt'])
+export class Comment {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Empty once the comment is deleted (see deletedAt)
+   */
+  @Field()
+  @Column('text')
+  content: string;
+
+  @Field(() => ID)
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  /**
+   * Null for top-level comments
+   */
+  @Field(() => ID, { nullable: true })
+  @Column({ nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => Comment, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parentId' })
+  parent: Comment | null;
+
+  @Field(() => User)
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'authorId' })
+  author: User;
+
+  @Field(() => ID)
+  @Column()
+  authorId: string;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Field()
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * Set when the author edits the content
+   */
+  @Field({ nullable: true })
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  /**
+   * Comments with replies are blanked instead of removed so the thread stays intact
+   */
+  @Field({ nullable: true })
+  @Column({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+}
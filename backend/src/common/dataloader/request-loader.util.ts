@@ -0,0 +1,34 @@
+import * as DataLoader from 'dataloader';
+
+// Loaders are cached per GraphQL context object, so each request gets its own batch window
+const loadersByContext = new WeakMap<
+  object,
+  Map<string, DataLoader<any, any>>
+>();
+
+/**
+ * Returns the named DataLoader for the current GraphQL request, creating it on first use
+ * Field resolvers use this to batch per-blog lookups into a single query instead of N+1
+ *
+ * Caching is disabled because subscription contexts live as long as the connection;
+ * batching within a tick still collapses a list of blogs into one query.
+ */
+export const getRequestLoader = <K, V>(
+  context: object,
+  name: string,
+  batchFn: DataLoader.BatchLoadFn<K, V>,
+): DataLoader<K, V> => {
+  let loaders = loadersByContext.get(context);
+  if (!loaders) {
+    loaders = new Map();
+    loadersByContext.set(context, loaders);
+  }
+
+  let loader = loaders.get(name);
+  if (!loader) {
+    loader = new DataLoader<K, V>(batchFn, { cache: false });
+    loaders.set(name, loader);
+  }
+
+  return loader as DataLoader<K, V>;
+};
@@ -0,0 +1,41 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  decodeCursor,
+  decodeDateCursor,
+  encodeCursor,
+  normalizePageSize,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from './cursor.util';
+
+describe('cursor util', () => {
+  it('should round-trip a cursor payload', () => {
+    const payload = { value: '2024-01-01T00:00:00.000Z', id: 'abc' };
+    expect(decodeCursor(encodeCursor(payload))).toEqual(payload);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+  });
+
+  it('should decode date cursors and reject ones from other sorts', () => {
+    const cursor = encodeCursor({
+      value: '2024-01-01T00:00:00.000Z',
+      id: 'abc',
+    });
+    expect(decodeDateCursor(cursor)).toEqual({
+      value: new Date('2024-01-01T00:00:00.000Z'),
+      id: 'abc',
+    });
+
+    const titleCursor = encodeCursor({ value: 'Hello world', id: 'abc' });
+    expect(() => decodeDateCursor(titleCursor)).toThrow(BadRequestException);
+  });
+
+  it('should clamp page sizes', () => {
+    expect(normalizePageSize(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(normalizePageSize(0)).toBe(DEFAULT_PAGE_SIZE);
+    expect(normalizePageSize(1000)).toBe(MAX_PAGE_SIZE);
+    expect(normalizePageSize(5)).toBe(5);
+  });
+});
@@ -0,0 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Opaque cursor payload: the sort key of the row plus its id as a tie-breaker,
+ * so cursors stay stable even when many rows share the same sort value
+ */
+export interface CursorPayload {
+  value: string | number;
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const encodeCursor = (payload: CursorPayload): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string): CursorPayload => {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (
+      !payload ||
+      typeof payload.id !== 'string' ||
+      payload.value === undefined
+    ) {
+      throw new Error('Malformed cursor payload');
+    }
+    return payload as CursorPayload;
+  } catch (error) {
+    throw new BadRequestException('Invalid cursor');
+  }
+};
+
+/**
+ * For timestamp sorts: the cursor's value as a Date, so pg serializes it the same way it
+ * reads it. A cursor from another sort (e.g. a title) fails as invalid
+ */
+export const decodeDateCursor = (
+  cursor: string,
+): { value: Date; id: string } => {
+  const payload = decodeCursor(cursor);
+  const value = new Date(payload.value);
+  if (Number.isNaN(value.getTime())) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return { value, id: payload.id };
+};
+
+/**
+ * Clamps the requested page size to a sane range
+ */
+export const normalizePageSize = (first?: number): number => {
+  if (!first || first < 1) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(first, MAX_PAGE_SIZE);
+};
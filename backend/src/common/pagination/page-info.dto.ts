@@ -0,0 +1,13 @@
+import { ObjectType, Field } from '@nestjs/graphql';
+
+/**
+ * Relay-style page info shared by all cursor-paginated connections
+ */
+@ObjectType()
+export class PageInfo {
+  @Field()
+  hasNextPage: boolean;
+
+  @Field({ nullable: true })
+  endCursor?: string;
+}
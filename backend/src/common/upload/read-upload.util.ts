@@ -0,0 +1,30 @@
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+
+/**
+ * Reads an upload into memory, failing as soon as it grows past maxBytes
+ */
+export const readUpload = (
+  stream: Readable,
+  maxBytes: number,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        reject(
+          new BadRequestException(
+            `File is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB`,
+          ),
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
@@ -0,0 +1,13 @@
+import { join } from 'path';
+import { publicUrl } from './url.config';
+
+// Uploads are stored on local disk by default and served from /uploads on this server
+export const attachmentConfig = {
+  storageDir:
+    process.env.ATTACHMENT_STORAGE_DIR || join(process.cwd(), 'uploads'),
+  publicPath: '/uploads',
+  publicUrl,
+  maxFileSize:
+    parseInt(process.env.ATTACHMENT_MAX_BYTES || '') || 10 * 1024 * 1024, // 10 MB
+  thumbnailSize: 320,
+};
@@ -0,0 +1,14 @@
+// Externally reachable base URLs, used for links the server generates (attachments, feeds)
+const port = process.env.PORT || 3200;
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// This backend, e.g. https://api.example.com
+export const publicUrl = trimTrailingSlash(
+  process.env.PUBLIC_URL || `http://localhost:${port}`,
+);
+
+// The Vue app, e.g. https://readitblogs.vercel.app
+export const frontendUrl = trimTrailingSlash(
+  process.env.FRONTEND_URL || 'http://localhost:5173',
+);
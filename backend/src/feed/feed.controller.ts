@@ -0,0 +1,68 @@
+import { Controller, Get, Param, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { FeedService } from './feed.service';
+import { Feed, renderAtom, renderRss } from './utils/feed-xml.util';
+
+const RSS_CONTENT_TYPE = 'application/rss+xml; charset=utf-8';
+const ATOM_CONTENT_TYPE = 'application/atom+xml; charset=utf-8';
+
+/**
+ * RSS and Atom feeds, served next to the GraphQL endpoint
+ */
+@Controller()
+export class FeedController {
+  constructor(private feedService: FeedService) {}
+
+  @Get('feed.xml')
+  async rss(@Req() req: Request, @Res() res: Response) {
+    const feed = await this.feedService.siteFeed(req.path);
+    this.send(req, res, renderRss(feed), RSS_CONTENT_TYPE, feed);
+  }
+
+  @Get('atom.xml')
+  async atom(@Req() req: Request, @Res() res: Response) {
+    const feed = await this.feedService.siteFeed(req.path);
+    this.send(req, res, renderAtom(feed), ATOM_CONTENT_TYPE, feed);
+  }
+
+  @Get('u/:username/feed.xml')
+  async authorRss(
+    @Param('username') username: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const feed = await this.feedService.authorFeed(username, req.path);
+    this.send(req, res, renderRss(feed), RSS_CONTENT_TYPE, feed);
+  }
+
+  /**
+   * Answers conditional GETs (If-None-Match / If-Modified-Since) with 304
+   * The ETag hashes the rendered feed, so any visible change - new post, edit,
+   * deletion, renamed author - produces a new one
+   */
+  private send(
+    req: Request,
+    res: Response,
+    body: string,
+    contentType: string,
+    feed: Feed,
+  ) {
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    if (feed.updatedAt) {
+      res.setHeader('Last-Modified', feed.updatedAt.toUTCString());
+    }
+
+    // req.fresh compares the request's validators with the headers set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    res.send(body);
+  }
+}
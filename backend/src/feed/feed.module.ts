@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Blog } from '../blog/entities/blog.entity';
+import { User } from '../auth/entities/user.entity';
+import { BlogModule } from '../blog/blog.module';
+import { TagModule } from '../tag/tag.module';
+import { FeedService } from './feed.service';
+import { FeedController } from './feed.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Blog, User]), BlogModule, TagModule],
+  controllers: [FeedController],
+  providers: [FeedService],
+})
+export class FeedModule {}
@@ -0,0 +1,122 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Blog } from '../blog/entities/blog.entity';
+import { User } from '../auth/entities/user.entity';
+import { applyBlogVisibility } from '../blog/utils/blog-visibility.util';
+import { BlogMarkdownService } from '../blog/markdown/blog-markdown.service';
+import { TagService } from '../tag/tag.service';
+import { Feed } from './utils/feed-xml.util';
+import { frontendUrl, publicUrl } from '../config/url.config';
+
+// Number of most recent posts in each feed
+const FEED_SIZE = 20;
+
+const SITE_TITLE = 'Readit Blogs';
+
+@Injectable()
+export class FeedService {
+  constructor(
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private blogMarkdownService: BlogMarkdownService,
+    private tagService: TagService,
+  ) {}
+
+  /**
+   * Latest public posts across the site
+   * feedPath is the path the feed is served from, used for its self link
+   */
+  async siteFeed(feedPath: string): Promise<Feed> {
+    return this.buildFeed(
+      {
+        title: SITE_TITLE,
+        description: `Latest posts on ${SITE_TITLE}`,
+        siteUrl: frontendUrl,
+        feedUrl: `${publicUrl}${feedPath}`,
+      },
+      await this.findLatest(),
+    );
+  }
+
+  async authorFeed(username: string, feedPath: string): Promise<Feed> {
+    // Usernames aren't unique; the oldest account keeps the feed URL
+    const author = await this.userRepository.findOne({
+      where: { username },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (!author) {
+      throw new NotFoundException(`User ${username} not found`);
+    }
+
+    return this.buildFeed(
+      {
+        title: `${author.username} on ${SITE_TITLE}`,
+        description: `Latest posts by ${author.username}`,
+        siteUrl: frontendUrl,
+        feedUrl: `${publicUrl}${feedPath}`,
+      },
+      await this.findLatest(author.id),
+    );
+  }
+
+  private async findLatest(authorId?: string): Promise<Blog[]> {
+    // Anonymous visibility: published posts only
+    const query = applyBlogVisibility(
+      this.blogRepository
+        .createQueryBuilder('blog')
+        .leftJoinAndSelect('blog.author', 'author'),
+      null,
+    );
+
+    if (authorId) {
+      query.andWhere('blog.authorId = :authorId', { authorId });
+    }
+
+    return query
+      .orderBy('COALESCE(blog.publishAt, blog.createdAt)', 'DESC')
+      .addOrderBy('blog.id', 'DESC')
+      .limit(FEED_SIZE)
+      .getMany();
+  }
+
+  private async buildFeed(
+    channel: Omit<Feed, 'items' | 'updatedAt'>,
+    blogs: Blog[],
+  ): Promise<Feed> {
+    const tags = blogs.length
+      ? await this.tagService.loadForBlogs(blogs.map((blog) => blog.id))
+      : [];
+
+    const items = blogs.map((blog, index) => {
+      const publishedAt = blog.publishAt ?? blog.createdAt;
+      return {
+        id: blog.id,
+        title: blog.title,
+        url: `${frontendUrl}/@${encodeURIComponent(blog.author.username)}/${
+          blog.slug
+        }`,
+        author: blog.author.username,
+        summary: this.blogMarkdownService.excerpt(blog),
+        contentHtml: this.blogMarkdownService.renderHtml(blog),
+        categories: tags[index].map((tag) => tag.name),
+        publishedAt,
+        // A scheduled post can go public after its last edit
+        updatedAt: new Date(
+          Math.max(blog.updatedAt.getTime(), publishedAt.getTime()),
+        ),
+      };
+    });
+
+    const latest = Math.max(...items.map((item) => item.updatedAt.getTime()));
+
+    return {
+      ...channel,
+      updatedAt: items.length ? new Date(latest) : null,
+      items,
+    };
+  }
+}
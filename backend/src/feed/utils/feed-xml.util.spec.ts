@@ -0,0 +1,60 @@
+import { Feed, escapeXml, renderAtom, renderRss } from './feed-xml.util';
+
+const feed: Feed = {
+  title: 'Readit Blogs',
+  description: 'Latest posts',
+  siteUrl: 'https://example.com',
+  feedUrl: 'https://api.example.com/feed.xml',
+  updatedAt: new Date('2024-05-02T10:00:00Z'),
+  items: [
+    {
+      id: '7b0c3c1e-0000-4000-8000-000000000001',
+      title: 'Tom & Jerry <3',
+      url: 'https://example.com/@tom/tom-jerry-3',
+      author: 'tom',
+      summary: 'Cat chases mouse',
+      contentHtml: '<p>Cat chases <em>mouse</em></p>',
+      categories: ['cartoons'],
+      publishedAt: new Date('2024-05-01T10:00:00Z'),
+      updatedAt: new Date('2024-05-02T10:00:00Z'),
+    },
+  ],
+};
+
+describe('escapeXml', () => {
+  it('escapes markup and drops characters XML does not allow', () => {
+    expect(escapeXml(`<a href="x">'&'</a>\u0001`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;',
+    );
+  });
+});
+
+describe('renderRss', () => {
+  it('renders items with escaped titles and HTML content', () => {
+    const xml = renderRss(feed);
+
+    expect(xml).toContain('<title>Tom &amp; Jerry &lt;3</title>');
+    expect(xml).toContain('<pubDate>Wed, 01 May 2024 10:00:00 GMT</pubDate>');
+    expect(xml).toContain(
+      '<content:encoded>&lt;p&gt;Cat chases &lt;em&gt;mouse&lt;/em&gt;&lt;/p&gt;</content:encoded>',
+    );
+    expect(xml).toContain('<category>cartoons</category>');
+  });
+});
+
+describe('renderAtom', () => {
+  it('renders entries with ids and timestamps', () => {
+    const xml = renderAtom(feed);
+
+    expect(xml).toContain(
+      '<id>urn:uuid:7b0c3c1e-0000-4000-8000-000000000001</id>',
+    );
+    expect(xml).toContain('<updated>2024-05-02T10:00:00.000Z</updated>');
+  });
+
+  it('still has an updated element when there are no entries', () => {
+    expect(renderAtom({ ...feed, items: [], updatedAt: null })).toContain(
+      '<updated>1970-01-01T00:00:00.000Z</updated>',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  author: string;
+  summary: string;
+  contentHtml: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  siteUrl: string;
+  feedUrl: string;
+  // Latest change among the items; null for an empty feed
+  updatedAt: Date | null;
+  items: FeedItem[];
+}
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Characters XML 1.0 doesn't allow at all
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const element = (name: string, text: string) =>
+  `<${name}>${escapeXml(text)}</${name}>`;
+
+/**
+ * RSS 2.0, with the full post in content:encoded
+ */
+export const renderRss = (feed: Feed): string => {
+  const items = feed.items.map((item) =>
+    [
+      '<item>',
+      element('title', item.title),
+      element('link', item.url),
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      element('dc:creator', item.author),
+      element('pubDate', item.publishedAt.toUTCString()),
+      ...item.categories.map((category) => element('category', category)),
+      element('description', item.summary),
+      element('content:encoded', item.contentHtml),
+      '</item>',
+    ].join(''),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    element('title', feed.title),
+    element('link', feed.siteUrl),
+    element('description', feed.description),
+    `<atom:link href="${escapeXml(
+      feed.feedUrl,
+    )}" rel="self" type="application/rss+xml"/>`,
+    feed.updatedAt
+      ? element('lastBuildDate', feed.updatedAt.toUTCString())
+      : '',
+    ...items,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+};
+
+/**
+ * Atom 1.0
+ */
+export const renderAtom = (feed: Feed): string => {
+  const entries = feed.items.map((item) =>
+    [
+      '<entry>',
+      element('id', `urn:uuid:${item.id}`),
+      element('title', item.title),
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `<author>${element('name', item.author)}</author>`,
+      element('published', item.publishedAt.toISOString()),
+      element('updated', item.updatedAt.toISOString()),
+      ...item.categories.map(
+        (category) => `<category term="${escapeXml(category)}"/>`,
+      ),
+      `<summary type="text">${escapeXml(item.summary)}</summary>`,
+      `<content type="html">${escapeXml(item.contentHtml)}</content>`,
+      '</entry>',
+    ].join(''),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    element('id', feed.feedUrl),
+    element('title', feed.title),
+    element('subtitle', feed.description),
+    `<link rel="alternate" type="text/html" href="${escapeXml(
+      feed.siteUrl,
+    )}"/>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(
+      feed.feedUrl,
+    )}"/>`,
+    // Atom requires <updated> even for an empty feed
+    element('updated', (feed.updatedAt ?? new Date(0)).toISOString()),
+    ...entries,
+    '</feed>',
+  ].join('\n');
+};
@@ -2,6 +2,8 @@ import 'dotenv/config';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
+import { graphqlUploadExpress } from 'graphql-upload';
+import { attachmentConfig } from './config/attachment.config';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -95,6 +97,15 @@ async function bootstrap() {
     }),
   );
 
+  // GraphQL multipart requests (file uploads); the service enforces the size limit again while reading
+  app.use(
+    '/graphql',
+    graphqlUploadExpress({
+      maxFileSize: attachmentConfig.maxFileSize,
+      maxFiles: 1,
+    }),
+  );
+
   await app.listen(process.env.PORT || 3200);
   console.log(`Server is running on: http://localhost:${process.env.PORT || 3200}`);
   console.log(`GraphQL endpoint: http://localhost:${process.env.PORT || 3200}/graphql`);
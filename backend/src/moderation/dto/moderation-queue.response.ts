@@ -0,0 +1,21 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { Report } from '../entities/report.entity';
+
+/**
+ * A reported post with its open reports, newest first
+ */
+@ObjectType()
+export class ModerationQueueItem {
+  @Field(() => Blog)
+  blog: Blog;
+
+  @Field(() => Int)
+  reportCount: number;
+
+  @Field()
+  lastReportedAt: Date;
+
+  @Field(() => [Report])
+  reports: Report[];
+}
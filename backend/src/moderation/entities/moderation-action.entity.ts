@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+export enum ModerationActionType {
+  HIDE = 'HIDE',
+  RESTORE = 'RESTORE',
+  DELETE = 'DELETE',
+  DISMISS = 'DISMISS',
+}
+
+registerEnumType(ModerationActionType, { name: 'ModerationActionType' });
+
+/**
+ * Audit log entry for something a moderator did to a post
+ * Kept when the post is deleted, with the title as it was at the time
+ */
+@ObjectType()
+@Entity('moderation_actions')
+@Index(['createdAt'])
+export class ModerationAction {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Field(() => ID, { nullable: true })
+  @Column({ nullable: true })
+  blogId?: string | null;
+
+  @Field(() => Blog, { nullable: true })
+  @ManyToOne(() => Blog, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'blogId' })
+  blog?: Blog | null;
+
+  @Field()
+  @Column()
+  blogTitle: string;
+
+  @Column()
+  moderatorId: string;
+
+  @Field(() => User)
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'moderatorId' })
+  moderator: User;
+
+  @Field(() => ModerationActionType)
+  @Column({ type: 'enum', enum: ModerationActionType })
+  action: ModerationActionType;
+
+  @Field({ nullable: true })
+  @Column('text', { nullable: true })
+  note?: string | null;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+export enum ReportStatus {
+  OPEN = 'OPEN',
+  // A moderator hid or deleted the post
+  RESOLVED = 'RESOLVED',
+  // A moderator looked at the post and left it up
+  DISMISSED = 'DISMISSED',
+}
+
+registerEnumType(ReportStatus, { name: 'ReportStatus' });
+
+/**
+ * A reader's complaint about a post, waiting in the moderation queue until a moderator acts on it
+ */
+@ObjectType()
+@Entity('reports')
+@Index('UQ_reports_open_reporter_blog', ['reporterId', 'blogId'], {
+  unique: true,
+  where: `"status" = 'OPEN'`,
+})
+@Index(['status', 'createdAt'])
+export class Report {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Field(() => ID)
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  @Column()
+  reporterId: string;
+
+  @Field(() => User)
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'reporterId' })
+  reporter: User;
+
+  @Field()
+  @Column('text')
+  reason: string;
+
+  @Field(() => ReportStatus)
+  @Column({ type: 'enum', enum: ReportStatus, default: ReportStatus.OPEN })
+  status: ReportStatus;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Field({ nullable: true })
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt?: Date | null;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Report } from './entities/report.entity';
+import { ModerationAction } from './entities/moderation-action.entity';
+import { ModerationService } from './moderation.service';
+import { ModerationResolver } from './moderation.resolver';
+import { BlogModule } from '../blog/blog.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Report, ModerationAction]), BlogModule],
+  providers: [ModerationService, ModerationResolver],
+})
+export class ModerationModule {}
@@ -0,0 +1,90 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Args,
+  ID,
+  Int,
+  Context,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import { Report } from './entities/report.entity';
+import {
+  ModerationAction,
+  ModerationActionType,
+} from './entities/moderation-action.entity';
+import { ModerationQueueItem } from './dto/moderation-queue.response';
+import { Blog } from '../blog/entities/blog.entity';
+import { BlogService } from '../blog/blog.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, UserRole } from '../auth/entities/user.entity';
+
+@Resolver()
+export class ModerationResolver {
+  constructor(
+    private moderationService: ModerationService,
+    private blogService: BlogService,
+  ) {}
+
+  @Mutation(() => Report)
+  @UseGuards(JwtAuthGuard)
+  async reportBlog(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('reason') reason: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<Report> {
+    return this.moderationService.report(blogId, reason, context.req.user);
+  }
+
+  /**
+   * Reported posts waiting for a decision, most reported first
+   */
+  @Query(() => [ModerationQueueItem])
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async moderationQueue(
+    @Args('first', { type: () => Int, nullable: true }) first: number,
+  ): Promise<ModerationQueueItem[]> {
+    return this.moderationService.findQueue(first);
+  }
+
+  @Query(() => [Blog])
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async hiddenBlogs(): Promise<Blog[]> {
+    return this.blogService.findHidden();
+  }
+
+  /**
+   * Audit log of moderator actions, newest first
+   */
+  @Query(() => [ModerationAction])
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async moderationActions(
+    @Args('first', { type: () => Int, nullable: true }) first: number,
+  ): Promise<ModerationAction[]> {
+    return this.moderationService.findActions(first);
+  }
+
+  @Mutation(() => ModerationAction)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.MODERATOR)
+  async moderateBlog(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('action', { type: () => ModerationActionType })
+    action: ModerationActionType,
+    @Args('note', { nullable: true }) note: string,
+    @Context() context: { req: { user: User } },
+  ): Promise<ModerationAction> {
+    return this.moderationService.moderate(
+      blogId,
+      action,
+      note,
+      context.req.user,
+    );
+  }
+}
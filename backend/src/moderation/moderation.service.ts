@@ -0,0 +1,192 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Report, ReportStatus } from './entities/report.entity';
+import {
+  ModerationAction,
+  ModerationActionType,
+} from './entities/moderation-action.entity';
+import { ModerationQueueItem } from './dto/moderation-queue.response';
+import { BlogService } from '../blog/blog.service';
+import { Blog } from '../blog/entities/blog.entity';
+import { User } from '../auth/entities/user.entity';
+import { normalizePageSize } from '../common/pagination/cursor.util';
+
+const MAX_REASON_LENGTH = 1000;
+const MAX_NOTE_LENGTH = 1000;
+
+@Injectable()
+export class ModerationService {
+  constructor(
+    @InjectRepository(Report)
+    private reportRepository: Repository<Report>,
+    @InjectRepository(ModerationAction)
+    private actionRepository: Repository<ModerationAction>,
+    private blogService: BlogService,
+  ) {}
+
+  /**
+   * Files a report against a post the reporter can see
+   * Reporting the same post again while the first report is open returns that report
+   */
+  async report(
+    blogId: string,
+    reason: string,
+    reporter: User,
+  ): Promise<Report> {
+    const blog = await this.blogService.findVisible(blogId, reporter);
+    if (blog.authorId === reporter.id) {
+      throw new BadRequestException('You cannot report your own blog');
+    }
+
+    const trimmedReason = reason?.trim();
+    if (!trimmedReason) {
+      throw new BadRequestException('Please give a reason for the report');
+    }
+    if (trimmedReason.length > MAX_REASON_LENGTH) {
+      throw new BadRequestException(
+        `Reasons can be at most ${MAX_REASON_LENGTH} characters`,
+      );
+    }
+
+    await this.reportRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Report)
+      .values({
+        blogId: blog.id,
+        reporterId: reporter.id,
+        reason: trimmedReason,
+      })
+      .orIgnore()
+      .execute();
+
+    return this.reportRepository.findOne({
+      where: {
+        blogId: blog.id,
+        reporterId: reporter.id,
+        status: ReportStatus.OPEN,
+      },
+      relations: ['reporter'],
+    });
+  }
+
+  /**
+   * Posts with open reports, most reported first
+   * Posts in the author's trash are left out until they are restored
+   */
+  async findQueue(first?: number): Promise<ModerationQueueItem[]> {
+    const rows: { blogId: string }[] = await this.reportRepository
+      .createQueryBuilder('report')
+      .innerJoin('report.blog', 'blog')
+      .select('report.blogId', 'blogId')
+      .where('report.status = :open', { open: ReportStatus.OPEN })
+      .groupBy('report.blogId')
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('MAX(report.createdAt)', 'DESC')
+      .limit(normalizePageSize(first))
+      .getRawMany();
+
+    if (!rows.length) {
+      return [];
+    }
+
+    const reports = await this.reportRepository.find({
+      where: {
+        blogId: In(rows.map((row) => row.blogId)),
+        status: ReportStatus.OPEN,
+      },
+      relations: ['blog', 'blog.author', 'reporter'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return rows.map(({ blogId }) => {
+      const blogReports = reports.filter((report) => report.blogId === blogId);
+      return {
+        blog: blogReports[0].blog,
+        reportCount: blogReports.length,
+        lastReportedAt: blogReports[0].createdAt,
+        reports: blogReports,
+      };
+    });
+  }
+
+  /**
+   * Most recent moderator actions first
+   */
+  async findActions(first?: number): Promise<ModerationAction[]> {
+    return this.actionRepository.find({
+      relations: ['blog', 'blog.author', 'moderator'],
+      order: { createdAt: 'DESC' },
+      take: normalizePageSize(first),
+    });
+  }
+
+  /**
+   * Applies a moderator decision to a post and records it in the audit log
+   * Hiding and deleting resolve the post's open reports; dismissing closes them without action
+   */
+  async moderate(
+    blogId: string,
+    action: ModerationActionType,
+    note: string | null,
+    moderator: User,
+  ): Promise<ModerationAction> {
+    const blog = await this.blogService.findOne(blogId);
+    const trimmedNote = note?.trim() || null;
+    if (trimmedNote && trimmedNote.length > MAX_NOTE_LENGTH) {
+      throw new BadRequestException(
+        `Notes can be at most ${MAX_NOTE_LENGTH} characters`,
+      );
+    }
+
+    switch (action) {
+      case ModerationActionType.HIDE:
+        if (blog.hiddenAt) {
+          throw new BadRequestException('This blog is already hidden');
+        }
+        await this.blogService.setHidden(blog.id, true);
+        await this.closeReports(blog, ReportStatus.RESOLVED);
+        break;
+      case ModerationActionType.RESTORE:
+        if (!blog.hiddenAt) {
+          throw new BadRequestException('This blog is not hidden');
+        }
+        await this.blogService.setHidden(blog.id, false);
+        break;
+      case ModerationActionType.DISMISS:
+        await this.closeReports(blog, ReportStatus.DISMISSED);
+        break;
+      case ModerationActionType.DELETE:
+        // Reports go with the post (ON DELETE CASCADE)
+        break;
+    }
+
+    // Recorded before a delete, which then clears blogId and leaves the title snapshot
+    const { id } = await this.actionRepository.save(
+      this.actionRepository.create({
+        blogId: blog.id,
+        blogTitle: blog.title,
+        moderatorId: moderator.id,
+        action,
+        note: trimmedNote,
+      }),
+    );
+
+    if (action === ModerationActionType.DELETE) {
+      await this.blogService.purge(blog.id);
+    }
+
+    return this.actionRepository.findOne({
+      where: { id },
+      relations: ['blog', 'blog.author', 'moderator'],
+    });
+  }
+
+  private async closeReports(blog: Blog, status: ReportStatus): Promise<void> {
+    await this.reportRepository.update(
+      { blogId: blog.id, status: ReportStatus.OPEN },
+      { status, resolvedAt: new Date() },
+    );
+  }
+}
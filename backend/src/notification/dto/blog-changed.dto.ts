@@ -0,0 +1,31 @@
+import { ObjectType, Field, ID, registerEnumType } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+
+export enum BlogChangeType {
+  UPDATED = 'UPDATED',
+  DELETED = 'DELETED',
+}
+
+registerEnumType(BlogChangeType, {
+  name: 'BlogChangeType',
+});
+
+/**
+ * Pushed to blogChanged subscribers when a public post is edited or taken down
+ */
+@ObjectType()
+export class BlogChangedPayload {
+  @Field(() => BlogChangeType)
+  change: BlogChangeType;
+
+  @Field(() => ID)
+  blogId: string;
+
+  /**
+   * The post as it is now; null for DELETED.
+   * Subscriptions share one context per connection, so batched fields (tags,
+   * reaction counts) would be served from the first event's cache - select plain fields only
+   */
+  @Field(() => Blog, { nullable: true })
+  blog?: Blog | null;
+}
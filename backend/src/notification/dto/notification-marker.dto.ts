@@ -1,14 +1,31 @@
 import { ObjectType, Field, Int } from '@nestjs/graphql';
 import { Blog } from '../../blog/entities/blog.entity';
+import { Comment } from '../../comment/entities/comment.entity';
+import { NotificationType } from '../entities/notification-marker.entity';
 
 @ObjectType()
 export class NotificationMarkerPayload {
   @Field(() => Int)
   markerVersion: number;
 
+  @Field(() => NotificationType)
+  type: NotificationType;
+
   @Field(() => Blog)
   blog: Blog;
 
+  /**
+   * Set for NEW_COMMENT markers
+   */
+  @Field(() => Comment, { nullable: true })
+  comment?: Comment | null;
+
+  /**
+   * Users whose inbox the marker went to; each gets it on their own PubSub trigger.
+   * Not exposed in the schema
+   */
+  recipientIds?: string[];
+
   @Field()
   createdAt: Date;
 
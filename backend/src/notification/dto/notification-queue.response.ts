@@ -0,0 +1,61 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+
+/**
+ * Where the notification events are right now (see NotificationQueueService)
+ */
+@ObjectType()
+export class NotificationQueueStats {
+  // On the stream, not read by a worker yet
+  @Field(() => Int)
+  pending: number;
+
+  // Read by a worker and not acknowledged yet
+  @Field(() => Int)
+  inFlight: number;
+
+  // Failed, waiting out their backoff
+  @Field(() => Int)
+  retrying: number;
+
+  @Field(() => Int)
+  deadLettered: number;
+
+  /**
+   * Age of the oldest event on the stream; null when it is empty
+   */
+  @Field(() => Int, { nullable: true })
+  oldestEventAgeSeconds?: number | null;
+}
+
+/**
+ * A failed attempt at an event that is waiting for a retry, or a dead-lettered event
+ */
+@ObjectType()
+export class NotificationQueueFailure {
+  // Dead-letter stream entry id, or the id the event had on the stream for a retry
+  @Field(() => ID)
+  id: string;
+
+  // NotificationEventType, or UNKNOWN for an event that can't be parsed
+  @Field()
+  type: string;
+
+  // The event as queued, in JSON
+  @Field()
+  event: string;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field()
+  error: string;
+
+  @Field()
+  failedAt: Date;
+
+  @Field()
+  deadLettered: boolean;
+
+  @Field({ nullable: true })
+  retryAt?: Date | null;
+}
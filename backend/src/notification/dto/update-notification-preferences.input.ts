@@ -0,0 +1,65 @@
+import { InputType, Field, ID } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsTimeZone,
+  IsUUID,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Left out means unchanged; unlike IsOptional, an explicit null still gets validated
+const IsOmittable = () => ValidateIf((_, value) => value !== undefined);
+
+/**
+ * Only the given fields change; quiet hours are set or cleared (null) as a pair, and
+ * they are the only fields that take null
+ */
+@InputType()
+export class UpdateNotificationPreferencesInput {
+  @Field({ nullable: true })
+  @IsOmittable()
+  @IsBoolean()
+  newPosts?: boolean;
+
+  @Field({ nullable: true })
+  @IsOmittable()
+  @IsBoolean()
+  comments?: boolean;
+
+  @Field({ nullable: true })
+  @IsOmittable()
+  @IsBoolean()
+  mentions?: boolean;
+
+  @Field({ nullable: true })
+  @IsOmittable()
+  @IsBoolean()
+  follows?: boolean;
+
+  @Field(() => [ID], { nullable: true })
+  @IsOmittable()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  mutedAuthorIds?: string[];
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be HH:MM' })
+  quietHoursStart?: string | null;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be HH:MM' })
+  quietHoursEnd?: string | null;
+
+  @Field({ nullable: true })
+  @IsOmittable()
+  @IsTimeZone()
+  timezone?: string;
+}
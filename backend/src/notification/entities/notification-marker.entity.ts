@@ -5,9 +5,19 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
-import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { ObjectType, Field, ID, Int, registerEnumType } from '@nestjs/graphql';
 import { Blog } from '../../blog/entities/blog.entity';
+import { Comment } from '../../comment/entities/comment.entity';
+import { UserNotification } from './user-notification.entity';
+
+export enum NotificationType {
+  NEW_BLOG = 'NEW_BLOG',
+  NEW_COMMENT = 'NEW_COMMENT',
+}
+
+registerEnumType(NotificationType, { name: 'NotificationType' });
 
 @ObjectType()
 @Entity('notification_markers')
@@ -20,13 +30,62 @@ export class NotificationMarker {
   @Column()
   blogId: string;
 
+  // Removed along with the post when it is purged from the trash
   @Field(() => Blog)
-  @ManyToOne(() => Blog, { eager: true })
+  @ManyToOne(() => Blog, { eager: true, onDelete: 'CASCADE' })
   @JoinColumn({ name: 'blogId' })
   blog: Blog;
 
+  @Field(() => NotificationType)
+  @Column({
+    type: 'enum',
+    enum: NotificationType,
+    default: NotificationType.NEW_BLOG,
+  })
+  type: NotificationType;
+
+  /**
+   * Only set on markers written before the per-user inbox (user_notifications), which now
+   * records who each marker went to; null meant it was broadcast to everyone
+   */
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  recipientId: string | null;
+
+  @Column({ nullable: true })
+  commentId: string | null;
+
+  @Field(() => Comment, { nullable: true })
+  @ManyToOne(() => Comment, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'commentId' })
+  comment: Comment | null;
+
+  /**
+   * What the marker announces, `NEW_BLOG:<blogId>` or `NEW_COMMENT:<commentId>`; unique,
+   * so a retried or reclaimed event finds its marker instead of writing another one.
+   * Null on markers written before it
+   */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', nullable: true })
+  eventKey: string | null;
+
   @Field()
   @CreateDateColumn()
   createdAt: Date;
+
+  /**
+   * The signed-in user's inbox row, joined in by the inbox queries
+   */
+  inbox?: UserNotification;
+
+  @Field({ nullable: true })
+  get readAt(): Date | null {
+    return this.inbox?.readAt ?? null;
+  }
+
+  @Field({ nullable: true })
+  get archivedAt(): Date | null {
+    return this.inbox?.archivedAt ?? null;
+  }
 }
 
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * What a user wants to be notified about (see NotificationPreferencesService)
+ * Created with the column defaults - everything on, nothing muted - the first time it is needed
+ */
+@ObjectType()
+@Entity('notification_preferences')
+export class NotificationPreferences {
+  @Field(() => ID)
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Field()
+  @Column({ default: true })
+  newPosts: boolean;
+
+  // Comments on the user's posts and replies to their comments
+  @Field()
+  @Column({ default: true })
+  comments: boolean;
+
+  @Field()
+  @Column({ default: true })
+  mentions: boolean;
+
+  @Field()
+  @Column({ default: true })
+  follows: boolean;
+
+  /**
+   * Nothing these users do reaches the inbox
+   */
+  @Field(() => [ID])
+  @Column('uuid', { array: true, default: '{}' })
+  mutedAuthorIds: string[];
+
+  /**
+   * "HH:MM" in the user's timezone; notifications still reach the inbox during quiet hours,
+   * they just aren't pushed live. The window may wrap past midnight
+   */
+  @Field({ nullable: true })
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  quietHoursStart?: string | null;
+
+  @Field({ nullable: true })
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  quietHoursEnd?: string | null;
+
+  // IANA name, e.g. "Europe/Berlin"
+  @Field()
+  @Column({ default: 'UTC' })
+  timezone: string;
+
+  @Field()
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
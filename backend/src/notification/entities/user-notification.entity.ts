@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { NotificationMarker } from './notification-marker.entity';
+
+/**
+ * One marker delivered to one user's inbox
+ * Written by the notification worker for each recipient (fan-out on write), so reads
+ * only ever look at the user's own rows
+ */
+@Entity('user_notifications')
+export class UserNotification {
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // Indexed for the cascade when a marker's post is purged
+  @Index()
+  @PrimaryColumn({ type: 'int' })
+  markerVersion: number;
+
+  @ManyToOne(() => NotificationMarker, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'markerVersion' })
+  marker: NotificationMarker;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Null while unread; markNotificationUnread clears it again
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  /**
+   * Set when the user dismisses the notification; archived ones are left out of
+   * the inbox and the unread count
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  archivedAt: Date | null;
+}
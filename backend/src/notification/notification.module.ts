@@ -4,22 +4,40 @@ import { NotificationService } from './notification.service';
 import { NotificationResolver } from './notification.resolver';
 import { NotificationMarker } from './entities/notification-marker.entity';
 import { UserNotificationState } from './entities/user-notification-state.entity';
+import { UserNotification } from './entities/user-notification.entity';
+import { NotificationPreferences } from './entities/notification-preferences.entity';
 import { NotificationQueueService } from './queue/notification-queue.service';
+import { NotificationQueueResolver } from './queue/notification-queue.resolver';
 import { NotificationWorkerService } from './worker/notification-worker.service';
+import { NotificationRecipientService } from './recipients/notification-recipient.service';
+import { NotificationPreferencesService } from './preferences/notification-preferences.service';
+import { NotificationPreferencesResolver } from './preferences/notification-preferences.resolver';
 import { BlogModule } from '../blog/blog.module';
+import { CommentModule } from '../comment/comment.module';
 import { User } from '../auth/entities/user.entity';
 
 @Global()
 @Module({
   imports: [
-    TypeOrmModule.forFeature([NotificationMarker, UserNotificationState, User]),
+    TypeOrmModule.forFeature([
+      NotificationMarker,
+      UserNotificationState,
+      UserNotification,
+      NotificationPreferences,
+      User,
+    ]),
     BlogModule, // Import BlogModule to access BlogService in worker
+    CommentModule, // Worker loads comments for comment notifications
   ],
   providers: [
     NotificationService,
     NotificationResolver,
     NotificationQueueService,
+    NotificationQueueResolver,
     NotificationWorkerService,
+    NotificationRecipientService,
+    NotificationPreferencesService,
+    NotificationPreferencesResolver,
   ],
   exports: [NotificationService, NotificationQueueService],
 })
@@ -1,6 +1,14 @@
 import { Resolver, Subscription, Context, Args, Int } from '@nestjs/graphql';
-import { NotificationService } from './notification.service';
+import { UnauthorizedException } from '@nestjs/common';
+import {
+  BLOG_CHANGED_TRIGGER,
+  NotificationService,
+  notificationMarkerTrigger,
+} from './notification.service';
 import { NotificationMarkerPayload } from './dto/notification-marker.dto';
+import { BlogChangedPayload } from './dto/blog-changed.dto';
+import { NotificationType } from './entities/notification-marker.entity';
+import { NotificationPreferencesService } from './preferences/notification-preferences.service';
 
 /**
  * Safe default payload to use when the actual payload is missing or invalid
@@ -9,6 +17,7 @@ import { NotificationMarkerPayload } from './dto/notification-marker.dto';
 const createDefaultPayload = (): NotificationMarkerPayload => {
   return {
     markerVersion: 0,
+    type: NotificationType.NEW_BLOG,
     blog: null as any, // Will be handled by GraphQL validation
     createdAt: new Date(),
     cursor: 0,
@@ -47,24 +56,29 @@ const safeResolvePayload = (
     return createDefaultPayload();
   }
 
-      // Return validated payload with cursor
-      return {
-        markerVersion: payload.markerVersion,
-        blog: payload.blog,
-        createdAt: payload.createdAt,
-        // Include cursor (markerVersion) for incremental loading
-        cursor: payload.markerVersion,
-      };
+  // Return validated payload with cursor
+  return {
+    markerVersion: payload.markerVersion,
+    type: payload.type || NotificationType.NEW_BLOG,
+    blog: payload.blog,
+    comment: payload.comment ?? null,
+    createdAt: payload.createdAt,
+    // Include cursor (markerVersion) for incremental loading
+    cursor: payload.markerVersion,
+  };
 };
 
 @Resolver()
 export class NotificationResolver {
-  constructor(private notificationService: NotificationService) {}
+  constructor(
+    private notificationService: NotificationService,
+    private preferencesService: NotificationPreferencesService,
+  ) {}
 
   /**
    * WebSocket subscription for real-time marker events
-   * Broadcasts markers received from Notification PubSub to all connected clients
-   * This subscription listens to 'newNotificationMarker' events from PubSub
+   * Only delivers markers that were fanned out to the signed-in user's inbox: each
+   * subscriber listens on their own 'newNotificationMarker.<userId>' PubSub trigger
    * 
    * Supports cursor-based filtering for incremental notifications:
    * - If cursor is provided, only returns markers with markerVersion > cursor
@@ -78,16 +92,42 @@ export class NotificationResolver {
   @Subscription(() => NotificationMarkerPayload, {
     name: 'newNotificationMarker',
     /**
-     * Filter function - allows all notifications through
-     * Only applies cursor-based filtering if cursor is provided
+     * Filter function - recipients are already picked by the trigger
+     * Holds back markers during the user's quiet hours or that their preferences turn down
+     * (they stay in the inbox), then applies cursor-based filtering if cursor is provided
+     * Called with the resolver as `this`
      */
-    filter: (payload, variables: { cursor?: number }, context) => {
+    async filter(
+      this: NotificationResolver,
+      payload,
+      variables: { cursor?: number },
+      context,
+    ) {
       // Handle wrapped payload
       let actualPayload = payload;
       if (payload?.newNotificationMarker !== undefined) {
         actualPayload = payload.newNotificationMarker;
       }
 
+      const user =
+        context?.connection?.context?.user ||
+        context?.req?.user ||
+        context?.user;
+      const actorId =
+        actualPayload?.type === NotificationType.NEW_COMMENT
+          ? actualPayload.comment?.author?.id
+          : actualPayload?.blog?.author?.id;
+      if (
+        user?.id &&
+        !(await this.preferencesService.shouldPushLive(
+          String(user.id),
+          actualPayload?.type ?? NotificationType.NEW_BLOG,
+          actorId,
+        ))
+      ) {
+        return false;
+      }
+
       // Cursor-based filtering: if cursor is provided, only return markers after that cursor
       if (variables?.cursor !== undefined && variables.cursor !== null) {
         const markerVersion = actualPayload?.markerVersion;
@@ -100,7 +140,7 @@ export class NotificationResolver {
         return markerVersion > variables.cursor;
       }
 
-      // No cursor filter - broadcast to all clients
+      // No cursor filter - everything in the user's inbox
       return true;
     },
     /**
@@ -135,14 +175,20 @@ export class NotificationResolver {
       console.error('PubSub instance is null!');
       throw new Error('PubSub instance not available');
     }
+
+    // Get user from context - it picks the trigger
+    const user =
+      context?.connection?.context?.user || context?.req?.user || context?.user;
+    const userId = user?.id ? String(user.id).trim() : null;
+    if (!userId) {
+      throw new UnauthorizedException('Sign in to receive notifications');
+    }
     
     try {
-      // Get user from context for filtering
-      const user = context?.connection?.context?.user || context?.req?.user || context?.user;
-      const userId = user?.id ? String(user.id).trim() : null;
-      
-      // Create asyncIterator - the filter in the decorator will handle filtering
-      const asyncIterator = pubSub.asyncIterator('newNotificationMarker');
+      // Create asyncIterator - the filter in the decorator will handle cursor filtering
+      const asyncIterator = pubSub.asyncIterator(
+        notificationMarkerTrigger(userId),
+      );
       
       if (!asyncIterator) {
         console.error('AsyncIterator is null!');
@@ -155,6 +201,14 @@ export class NotificationResolver {
       throw error;
     }
   }
-}
-
 
+  /**
+   * Edits to and removals of public posts, so clients can patch or retract them live
+   */
+  @Subscription(() => BlogChangedPayload)
+  blogChanged() {
+    return this.notificationService
+      .getPubSub()
+      .asyncIterator(BLOG_CHANGED_TRIGGER);
+  }
+}
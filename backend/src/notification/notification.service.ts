@@ -1,13 +1,47 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 import { Redis } from 'ioredis';
 import { PubSub } from 'graphql-subscriptions';
+import { randomUUID } from 'crypto';
 import { Blog } from '../blog/entities/blog.entity';
-import { NotificationMarker } from './entities/notification-marker.entity';
+import { Comment } from '../comment/entities/comment.entity';
+import {
+  NotificationMarker,
+  NotificationType,
+} from './entities/notification-marker.entity';
+import { NotificationMarkerPayload } from './dto/notification-marker.dto';
+import { BlogChangeType } from './dto/blog-changed.dto';
 import { UserNotificationState } from './entities/user-notification-state.entity';
+import { UserNotification } from './entities/user-notification.entity';
 import { User } from '../auth/entities/user.entity';
 import { getRedisConfig } from '../config/redis.config';
+import {
+  decodeLiveEvent,
+  decodeWithDates,
+  encodeLiveEvent,
+  encodeWithDates,
+} from './utils/live-event.util';
+
+/**
+ * PubSub trigger for the blogChanged subscription
+ */
+export const BLOG_CHANGED_TRIGGER = 'blogChanged';
+
+/**
+ * PubSub trigger for one user's newNotificationMarker subscription
+ */
+export const notificationMarkerTrigger = (userId: string) =>
+  `newNotificationMarker.${userId}`;
+
+// Inbox rows are inserted in batches this size when a marker fans out to many users
+const INBOX_INSERT_CHUNK = 1000;
 
 @Injectable()
 export class NotificationService implements OnModuleInit, OnModuleDestroy {
@@ -15,14 +49,17 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
   private redis: Redis;
   private redisSubscriber: Redis;
   private readonly NOTIFICATION_CHANNEL = 'new_blog_notifications';
+  private readonly LIVE_EVENTS_CHANNEL = 'live_events';
+  // Lets this instance skip its own live events when they come back from Redis
+  private readonly instanceId = randomUUID();
 
   constructor(
     @InjectRepository(NotificationMarker)
     private markerRepository: Repository<NotificationMarker>,
     @InjectRepository(UserNotificationState)
     private userStateRepository: Repository<UserNotificationState>,
-    @InjectRepository(User)
-    private userRepository: Repository<User>,
+    @InjectRepository(UserNotification)
+    private inboxRepository: Repository<UserNotification>,
   ) {
     // Initialize PubSub for GraphQL subscriptions
     this.pubSub = new PubSub();
@@ -109,20 +146,30 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleInit() {
+    await this.backfillInbox();
+
     try {
       // Subscribe to Redis channel for cross-instance notifications
       // Wait for subscriber to be ready before subscribing
-      await this.redisSubscriber.subscribe(this.NOTIFICATION_CHANNEL);
+      await this.redisSubscriber.subscribe(
+        this.NOTIFICATION_CHANNEL,
+        this.LIVE_EVENTS_CHANNEL,
+      );
       
       this.redisSubscriber.on('message', async (channel, message) => {
         if (channel === this.NOTIFICATION_CHANNEL) {
           try {
-            const parsedMarker = JSON.parse(message);
+            const parsedMarker =
+              decodeWithDates<NotificationMarkerPayload>(message);
 
             // Reconstruct the payload from Redis message
             // Redis payload is serialized, so we need to reconstruct Date objects
             const markerPayload = {
               markerVersion: parsedMarker.markerVersion,
+              // Markers published before typed markers existed are blog markers
+              type: parsedMarker.type || NotificationType.NEW_BLOG,
+              recipientIds: parsedMarker.recipientIds ?? [],
+              comment: parsedMarker.comment ?? null,
               blog: {
                 ...parsedMarker.blog,
                 createdAt: new Date(parsedMarker.blog.createdAt),
@@ -149,6 +196,17 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
             console.error('Error parsing or publishing marker message:', error);
             // Don't throw - log and continue to avoid breaking the Redis subscriber
           }
+        } else if (channel === this.LIVE_EVENTS_CHANNEL) {
+          try {
+            const { origin, trigger, payload } = decodeLiveEvent(message);
+            // Already delivered locally by publishLiveEvent
+            if (origin === this.instanceId) {
+              return;
+            }
+            await this.pubSub.publish(trigger, payload);
+          } catch (error) {
+            console.error('Error parsing or publishing live event:', error);
+          }
         }
       });
     } catch (error) {
@@ -159,7 +217,10 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
   async onModuleDestroy() {
     try {
       if (this.redisSubscriber && this.redisSubscriber.status === 'ready') {
-        await this.redisSubscriber.unsubscribe(this.NOTIFICATION_CHANNEL);
+        await this.redisSubscriber.unsubscribe(
+          this.NOTIFICATION_CHANNEL,
+          this.LIVE_EVENTS_CHANNEL,
+        );
         await this.redisSubscriber.quit();
       }
       if (this.redis && this.redis.status === 'ready') {
@@ -198,12 +259,9 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
    * @param payload - The notification marker payload to publish
    * @throws Error if payload is invalid and cannot be published
    */
-  private async safePublishMarker(payload: {
-    markerVersion: number;
-    blog: Blog;
-    createdAt: Date;
-    cursor?: number;
-  }): Promise<void> {
+  private async safePublishMarker(
+    payload: NotificationMarkerPayload,
+  ): Promise<void> {
     // Validate payload before publishing
     if (!payload) {
       throw new Error('Cannot publish null or undefined payload');
@@ -234,11 +292,16 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
     }
 
     // Publish to local PubSub FIRST (for immediate WebSocket delivery)
-    // This triggers the GraphQL subscription resolver which broadcasts to all connected clients
+    // Each recipient listens on their own trigger, so nobody else's subscription sees it
     try {
       // pubSub.publish publishes the payload directly
       // The asyncIterator will automatically wrap it as { newNotificationMarker: payload }
-      await this.pubSub.publish('newNotificationMarker', payload);
+      for (const recipientId of payload.recipientIds ?? []) {
+        await this.pubSub.publish(
+          notificationMarkerTrigger(recipientId),
+          payload,
+        );
+      }
     } catch (error) {
       console.error('Error publishing to local PubSub:', error);
       // Re-throw to ensure caller knows publish failed
@@ -251,16 +314,23 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
    * 
    * @param payload - The notification marker payload to publish
    */
-  private async safePublishToRedis(payload: {
-    markerVersion: number;
-    blog: Blog;
-    createdAt: Date;
-    cursor?: number;
-  }): Promise<void> {
+  private async safePublishToRedis(
+    payload: NotificationMarkerPayload,
+  ): Promise<void> {
     try {
       // Serialize payload for Redis (only include serializable fields)
       const redisPayload = {
         markerVersion: payload.markerVersion,
+        type: payload.type,
+        recipientIds: payload.recipientIds ?? [],
+        comment: payload.comment
+          ? {
+              ...payload.comment,
+              author: payload.comment.author
+                ? this.publicAuthor(payload.comment.author)
+                : undefined,
+            }
+          : null,
         blog: {
           id: payload.blog.id,
           title: payload.blog.title,
@@ -286,7 +356,7 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
 
       await this.redis.publish(
         this.NOTIFICATION_CHANNEL,
-        JSON.stringify(redisPayload),
+        encodeWithDates(redisPayload),
       );
     } catch (error) {
       console.error('❌ Error publishing to Redis:', error);
@@ -295,17 +365,25 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async createMarker(blog: Blog): Promise<NotificationMarker> {
-    // Create a new marker - markerVersion will be auto-incremented
-    const marker = this.markerRepository.create({
-      blog,
+  /**
+   * Records a new post and delivers it to the given users' inboxes
+   * Safe to repeat: a retry reuses the post's marker and only pushes to users who
+   * didn't have it in their inbox yet
+   */
+  async createMarker(
+    blog: Blog,
+    recipientIds: string[],
+  ): Promise<NotificationMarker> {
+    const markerVersion = await this.findOrCreateMarker({
+      type: NotificationType.NEW_BLOG,
       blogId: blog.id,
+      eventKey: `${NotificationType.NEW_BLOG}:${blog.id}`,
     });
-    const savedMarker = await this.markerRepository.save(marker);
+    const deliveredIds = await this.deliver(markerVersion, recipientIds);
 
     // Load blog relation for response
     const markerWithBlog = await this.markerRepository.findOne({
-      where: { markerVersion: savedMarker.markerVersion },
+      where: { markerVersion },
       relations: ['blog', 'blog.author'],
     });
 
@@ -323,7 +401,7 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
       console.warn('⚠️ [BACKEND] Blog author not loaded, attempting to reload...');
       // Try to reload with author
       const reloadedMarker = await this.markerRepository.findOne({
-        where: { markerVersion: savedMarker.markerVersion },
+        where: { markerVersion },
         relations: ['blog', 'blog.author'],
       });
       if (reloadedMarker?.blog?.author) {
@@ -341,8 +419,14 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
     // Create payload matching GraphQL NotificationMarkerPayload type
     // GraphQL will serialize the Blog entity according to the schema
     // Include cursor (markerVersion) for cursor-based pagination
+    if (!deliveredIds.length) {
+      return markerWithBlog;
+    }
+
     const markerPayload = {
       markerVersion: markerWithBlog.markerVersion,
+      type: markerWithBlog.type,
+      recipientIds: deliveredIds,
       blog: {
         ...markerWithBlog.blog,
         // Explicitly ensure author and authorId are included
@@ -360,75 +444,208 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
     return markerWithBlog;
   }
 
-  async getUnreadMarkers(user: User): Promise<NotificationMarker[]> {
-    // Get user's last seen marker version
-    let userState = await this.userStateRepository.findOne({
-      where: { userId: user.id },
+  /**
+   * Records a new comment and delivers it to the given users' inboxes; safe to repeat,
+   * like createMarker
+   */
+  async createCommentMarker(
+    comment: Comment,
+    blog: Blog,
+    recipientIds: string[],
+  ): Promise<NotificationMarker> {
+    const markerVersion = await this.findOrCreateMarker({
+      type: NotificationType.NEW_COMMENT,
+      blogId: blog.id,
+      commentId: comment.id,
+      eventKey: `${NotificationType.NEW_COMMENT}:${comment.id}`,
     });
+    const deliveredIds = await this.deliver(markerVersion, recipientIds);
 
-    // If user state doesn't exist, create it with lastSeenMarkerVersion = 0
-    if (!userState) {
-      userState = this.userStateRepository.create({
-        userId: user.id,
-        lastSeenMarkerVersion: 0,
-      });
-      await this.userStateRepository.save(userState);
+    const markerWithRelations = await this.markerRepository.findOne({
+      where: { markerVersion },
+      relations: ['blog', 'blog.author', 'comment', 'comment.author'],
+    });
+
+    if (!markerWithRelations?.blog?.author) {
+      throw new Error('Failed to load comment marker relations');
     }
 
-    // Fetch all markers where markerVersion > lastSeenMarkerVersion
-    // Return all markers for all users (including author's own blogs)
-    const markers = await this.markerRepository.find({
-      where: {
-        markerVersion: MoreThan(userState.lastSeenMarkerVersion),
-      },
-      relations: ['blog', 'blog.author'],
-      order: { markerVersion: 'ASC' },
-    });
+    if (!deliveredIds.length) {
+      return markerWithRelations;
+    }
+
+    const markerPayload = {
+      markerVersion: markerWithRelations.markerVersion,
+      type: markerWithRelations.type,
+      recipientIds: deliveredIds,
+      blog: markerWithRelations.blog,
+      comment: markerWithRelations.comment,
+      createdAt: markerWithRelations.createdAt,
+      cursor: markerWithRelations.markerVersion,
+    };
+
+    await this.safePublishMarker(markerPayload);
+    await this.safePublishToRedis(markerPayload);
 
-    return markers;
+    return markerWithRelations;
   }
 
-  async getAllMarkers(user: User): Promise<NotificationMarker[]> {
-    // Fetch all markers for blogs created after the user's registration date
-    // This ensures new users only see notifications from blogs posted after they signed up
-    
-    // Reload user from database to ensure we have the latest createdAt value
-    // This is important because the user object from JWT might not have all fields
-    const freshUser = await this.userRepository.findOne({ 
-      where: { id: user.id },
-      select: ['id', 'email', 'username', 'createdAt']
+  /**
+   * The markerVersion of the marker with this eventKey, inserting it the first time
+   */
+  private async findOrCreateMarker(
+    values: Partial<NotificationMarker>,
+  ): Promise<number> {
+    await this.markerRepository
+      .createQueryBuilder()
+      .insert()
+      .into(NotificationMarker)
+      .values(values)
+      .orIgnore()
+      .execute();
+
+    const marker = await this.markerRepository.findOne({
+      where: { eventKey: values.eventKey },
     });
-    
-    if (!freshUser || !freshUser.createdAt) {
-      console.error(`User ${user.id} not found or has no createdAt date`);
-      return []; // Return empty array if user data is invalid
+    return marker.markerVersion;
+  }
+
+  /**
+   * Returns the users it was new to; the others already had it from an earlier attempt
+   */
+  private async deliver(
+    markerVersion: number,
+    recipientIds: string[],
+  ): Promise<string[]> {
+    const deliveredIds: string[] = [];
+
+    for (let i = 0; i < recipientIds.length; i += INBOX_INSERT_CHUNK) {
+      const result = await this.inboxRepository
+        .createQueryBuilder()
+        .insert()
+        .into(UserNotification)
+        .values(
+          recipientIds
+            .slice(i, i + INBOX_INSERT_CHUNK)
+            .map((userId) => ({ userId, markerVersion })),
+        )
+        .orIgnore()
+        .returning(['userId'])
+        .execute();
+      deliveredIds.push(...(result.raw || []).map((row) => row.userId));
     }
-    
-    // Convert to proper date object and subtract 1 second as buffer
-    // This ensures we don't include blogs created at the exact same millisecond
-    const userCreatedAt = freshUser.createdAt instanceof Date 
-      ? new Date(freshUser.createdAt.getTime() - 1000) // Subtract 1 second
-      : new Date(new Date(freshUser.createdAt).getTime() - 1000);
-    
-    console.log(`Filtering markers for user ${freshUser.id} (registered: ${freshUser.createdAt.toISOString()}, filter date: ${userCreatedAt.toISOString()})`);
-    
-    const markers = await this.markerRepository
-      .createQueryBuilder('marker')
-      .leftJoinAndSelect('marker.blog', 'blog')
-      .leftJoinAndSelect('blog.author', 'author')
-      .where('blog.createdAt > :userCreatedAt', { userCreatedAt: userCreatedAt })
-      .orderBy('marker.markerVersion', 'DESC')
-      .getMany();
 
-    console.log(`Found ${markers.length} markers for user ${freshUser.id} after registration date`);
-    if (markers.length > 0) {
-      console.log(`Sample blog dates: ${markers.slice(0, 3).map(m => m.blog.createdAt.toISOString()).join(', ')}`);
+    return deliveredIds;
+  }
+
+  /**
+   * Fills the inbox from markers written before it existed, once: broadcast markers go to
+   * everyone who had signed up before the post, targeted ones to their recipient.
+   * Markers up to the user's lastSeenMarkerVersion arrive already read
+   */
+  private async backfillInbox(): Promise<void> {
+    try {
+      if (await this.inboxRepository.createQueryBuilder().getExists()) {
+        return;
+      }
+
+      await this.inboxRepository.query(`
+        INSERT INTO "user_notifications" ("userId", "markerVersion", "readAt")
+        SELECT
+          "user"."id",
+          "marker"."markerVersion",
+          CASE
+            WHEN "marker"."markerVersion" <= "state"."lastSeenMarkerVersion"
+            THEN CURRENT_TIMESTAMP
+          END
+        FROM "notification_markers" "marker"
+        INNER JOIN "blogs" "blog" ON "blog"."id" = "marker"."blogId"
+        INNER JOIN "users" "user"
+          ON (
+            "marker"."recipientId" IS NULL
+            AND "user"."createdAt" < "blog"."createdAt"
+            AND "user"."id" != "blog"."authorId"
+          )
+          OR "user"."id" = "marker"."recipientId"
+        LEFT JOIN "user_notification_state" "state" ON "state"."userId" = "user"."id"
+        ON CONFLICT DO NOTHING
+      `);
+    } catch (error) {
+      console.error('Error backfilling notification inbox:', error);
     }
+  }
 
-    return markers;
+  /**
+   * Publishes a subscription event to subscribers on this and every other instance
+   * Payloads cross Redis as JSON, so only pass plain data (Dates are preserved)
+   */
+  async publishLiveEvent(trigger: string, payload: object): Promise<void> {
+    await this.pubSub.publish(trigger, payload);
+
+    try {
+      await this.redis.publish(
+        this.LIVE_EVENTS_CHANNEL,
+        encodeLiveEvent({ origin: this.instanceId, trigger, payload }),
+      );
+    } catch (error) {
+      // Local subscribers already have it - Redis only matters for other instances
+      console.error('Error publishing live event to Redis:', error);
+    }
+  }
+
+  /**
+   * Tells clients a public post was edited or taken down, so lists and notifications
+   * can patch or retract it. Only the author's public fields go out over Redis
+   */
+  async publishBlogChange(
+    change: BlogChangeType,
+    blogId: string,
+    blog: Blog | null = null,
+  ): Promise<void> {
+    const author = blog?.author ? this.publicAuthor(blog.author) : undefined;
+
+    await this.publishLiveEvent(BLOG_CHANGED_TRIGGER, {
+      blogChanged: { change, blogId, blog: blog ? { ...blog, author } : null },
+    });
+  }
+
+  private publicAuthor(user: User): User {
+    return {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    } as User;
   }
 
+  async getUnreadMarkers(user: User): Promise<NotificationMarker[]> {
+    return this.inboxQuery(user)
+      .andWhere('inbox.readAt IS NULL')
+      .orderBy('marker.markerVersion', 'ASC')
+      .getMany();
+  }
+
+  async getAllMarkers(user: User): Promise<NotificationMarker[]> {
+    return this.inboxQuery(user)
+      .orderBy('marker.markerVersion', 'DESC')
+      .getMany();
+  }
+
+  /**
+   * Marks everything up to markerVersion as read (see markAllRead for the whole inbox)
+   */
   async markAsSeen(user: User, markerVersion: number): Promise<UserNotificationState> {
+    await this.inboxRepository
+      .createQueryBuilder()
+      .update(UserNotification)
+      .set({ readAt: () => 'CURRENT_TIMESTAMP' })
+      .where('"userId" = :userId', { userId: user.id })
+      .andWhere('"markerVersion" <= :markerVersion', { markerVersion })
+      .andWhere('"readAt" IS NULL')
+      .execute();
+
     let userState = await this.userStateRepository.findOne({
       where: { userId: user.id },
     });
@@ -466,50 +683,105 @@ export class NotificationService implements OnModuleInit, OnModuleDestroy {
   }
 
   async getUnreadCount(user: User): Promise<number> {
-    // Get user's last seen marker version
-    let userState = await this.userStateRepository.findOne({
-      where: { userId: user.id },
+    return this.inboxQuery(user).andWhere('inbox.readAt IS NULL').getCount();
+  }
+
+  async markAllRead(user: User): Promise<UserNotificationState> {
+    const latest = await this.inboxRepository
+      .createQueryBuilder('inbox')
+      .select('MAX(inbox.markerVersion)', 'markerVersion')
+      .where('inbox.userId = :userId', { userId: user.id })
+      .getRawOne();
+
+    return this.markAsSeen(user, latest?.markerVersion ?? 0);
+  }
+
+  /**
+   * Marks one notification read or unread again; returns it with its new state
+   */
+  async setRead(
+    user: User,
+    markerVersion: number,
+    read: boolean,
+  ): Promise<NotificationMarker> {
+    await this.updateInboxRow(user, markerVersion, {
+      readAt: read ? () => 'CURRENT_TIMESTAMP' : null,
     });
+    return this.findInboxMarker(user, markerVersion);
+  }
 
-    // If user state doesn't exist, create it with lastSeenMarkerVersion = 0
-    if (!userState) {
-      userState = this.userStateRepository.create({
-        userId: user.id,
-        lastSeenMarkerVersion: 0,
-      });
-      await this.userStateRepository.save(userState);
+  /**
+   * Dismisses a notification; it no longer shows up or counts as unread
+   */
+  async archive(
+    user: User,
+    markerVersion: number,
+  ): Promise<NotificationMarker> {
+    await this.updateInboxRow(user, markerVersion, {
+      archivedAt: () => 'CURRENT_TIMESTAMP',
+    });
+    return this.findInboxMarker(user, markerVersion);
+  }
+
+  private async updateInboxRow(
+    user: User,
+    markerVersion: number,
+    changes: QueryDeepPartialEntity<UserNotification>,
+  ): Promise<void> {
+    const { affected } = await this.inboxRepository
+      .createQueryBuilder()
+      .update(UserNotification)
+      .set(changes)
+      .where('"userId" = :userId', { userId: user.id })
+      .andWhere('"markerVersion" = :markerVersion', { markerVersion })
+      .execute();
+
+    if (!affected) {
+      throw new NotFoundException('Notification not found');
     }
+  }
 
-    // Reload user from database to ensure we have the latest createdAt value
-    const freshUser = await this.userRepository.findOne({ 
-      where: { id: user.id },
-      select: ['id', 'createdAt']
-    });
-    
-    if (!freshUser || !freshUser.createdAt) {
-      console.error(`User ${user.id} not found or has no createdAt date`);
-      return 0; // Return 0 if user data is invalid
+  // Archived ones included, so callers get back the row they just changed
+  private async findInboxMarker(
+    user: User,
+    markerVersion: number,
+  ): Promise<NotificationMarker> {
+    const marker = await this.inboxQuery(user, true)
+      .andWhere('marker.markerVersion = :markerVersion', { markerVersion })
+      .getOne();
+
+    if (!marker) {
+      throw new NotFoundException('Notification not found');
     }
-    
-    // Convert to proper date object and subtract 1 second as buffer
-    const userCreatedAt = freshUser.createdAt instanceof Date 
-      ? new Date(freshUser.createdAt.getTime() - 1000) // Subtract 1 second
-      : new Date(new Date(freshUser.createdAt).getTime() - 1000);
-
-    // Count markers where markerVersion > lastSeenMarkerVersion
-    // AND blog was created after user registration
-    const count = await this.markerRepository
+
+    return marker;
+  }
+
+  /**
+   * Markers in the user's inbox, with the user's read state, archived ones left out
+   * Inner join: trashed posts are left out of the join, which hides their markers;
+   * markers of posts hidden by a moderator are filtered out as well
+   */
+  private inboxQuery(
+    user: User,
+    includeArchived = false,
+  ): SelectQueryBuilder<NotificationMarker> {
+    return this.markerRepository
       .createQueryBuilder('marker')
-      .leftJoin('marker.blog', 'blog')
-      .where('marker.markerVersion > :lastSeenMarkerVersion', { 
-        lastSeenMarkerVersion: userState.lastSeenMarkerVersion 
-      })
-      .andWhere('blog.createdAt > :userCreatedAt', { 
-        userCreatedAt: userCreatedAt 
-      })
-      .getCount();
-
-    return count;
+      .innerJoinAndMapOne(
+        'marker.inbox',
+        UserNotification,
+        'inbox',
+        `inbox.markerVersion = marker.markerVersion AND inbox.userId = :userId${
+          includeArchived ? '' : ' AND inbox.archivedAt IS NULL'
+        }`,
+        { userId: user.id },
+      )
+      .innerJoinAndSelect('marker.blog', 'blog')
+      .leftJoinAndSelect('blog.author', 'author')
+      .leftJoinAndSelect('marker.comment', 'comment')
+      .leftJoinAndSelect('comment.author', 'commentAuthor')
+      .where('blog.hiddenAt IS NULL');
   }
 
   getPubSub(): PubSub {
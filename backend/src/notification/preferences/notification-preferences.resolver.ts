@@ -0,0 +1,61 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Args,
+  Context,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationPreferences } from '../entities/notification-preferences.entity';
+import { UpdateNotificationPreferencesInput } from '../dto/update-notification-preferences.input';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { User } from '../../auth/entities/user.entity';
+
+@Resolver(() => NotificationPreferences)
+export class NotificationPreferencesResolver {
+  constructor(
+    private preferencesService: NotificationPreferencesService,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+  ) {}
+
+  @Query(() => NotificationPreferences)
+  @UseGuards(JwtAuthGuard)
+  async myNotificationPreferences(
+    @Context() context: { req: { user: User } },
+  ): Promise<NotificationPreferences> {
+    return this.preferencesService.getPreferences(context.req.user.id);
+  }
+
+  /**
+   * Applies to notifications processed from now on
+   */
+  @Mutation(() => NotificationPreferences)
+  @UseGuards(JwtAuthGuard)
+  async updateNotificationPreferences(
+    @Args('input') input: UpdateNotificationPreferencesInput,
+    @Context() context: { req: { user: User } },
+  ): Promise<NotificationPreferences> {
+    return this.preferencesService.update(context.req.user, input);
+  }
+
+  // Accounts deleted since they were muted are left out
+  @ResolveField(() => [User])
+  async mutedAuthors(
+    @Parent() preferences: NotificationPreferences,
+  ): Promise<User[]> {
+    if (!preferences.mutedAuthorIds.length) {
+      return [];
+    }
+
+    return this.userRepository.find({
+      where: { id: In(preferences.mutedAuthorIds) },
+      order: { username: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { NotificationType } from '../entities/notification-marker.entity';
+import { NotificationPreferences } from '../entities/notification-preferences.entity';
+import { UpdateNotificationPreferencesInput } from '../dto/update-notification-preferences.input';
+import {
+  isInQuietHours,
+  wantsNotification,
+} from './notification-preferences.util';
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectRepository(NotificationPreferences)
+    private preferencesRepository: Repository<NotificationPreferences>,
+  ) {}
+
+  /**
+   * The row is created with the column defaults the first time it is needed
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    await this.preferencesRepository
+      .createQueryBuilder()
+      .insert()
+      .into(NotificationPreferences)
+      .values({ userId })
+      .orIgnore()
+      .execute();
+
+    return this.preferencesRepository.findOne({ where: { userId } });
+  }
+
+  async update(
+    user: User,
+    input: UpdateNotificationPreferencesInput,
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(user.id);
+    const quietHoursStart =
+      input.quietHoursStart !== undefined
+        ? input.quietHoursStart
+        : current.quietHoursStart;
+    const quietHoursEnd =
+      input.quietHoursEnd !== undefined
+        ? input.quietHoursEnd
+        : current.quietHoursEnd;
+
+    if (!quietHoursStart !== !quietHoursEnd) {
+      throw new BadRequestException('Quiet hours need both a start and an end');
+    }
+
+    // Only the quiet hours may be cleared; the other columns are NOT NULL
+    const changes: Partial<NotificationPreferences> = {
+      quietHoursStart,
+      quietHoursEnd,
+    };
+    for (const key of [
+      'newPosts',
+      'comments',
+      'mentions',
+      'follows',
+    ] as const) {
+      if (input[key] != null) {
+        changes[key] = input[key];
+      }
+    }
+    if (input.timezone != null) {
+      changes.timezone = input.timezone;
+    }
+    if (input.mutedAuthorIds) {
+      changes.mutedAuthorIds = [...new Set(input.mutedAuthorIds)].filter(
+        (id) => id !== user.id,
+      );
+    }
+
+    await this.preferencesRepository.update(user.id, changes);
+    return this.getPreferences(user.id);
+  }
+
+  /**
+   * Drops the recipients who switched this type of notification off or muted actorId
+   * Only the recipients' rows that differ from the defaults are loaded; everyone else
+   * gets everything
+   */
+  async filterRecipients(
+    recipientIds: string[],
+    type: NotificationType,
+    actorId: string,
+  ): Promise<string[]> {
+    if (!recipientIds.length) {
+      return recipientIds;
+    }
+
+    const customized = await this.preferencesRepository
+      .createQueryBuilder('preferences')
+      // One array parameter rather than IN: a new post can go to every user
+      .where('preferences.userId = ANY(:recipientIds::uuid[])', {
+        recipientIds,
+      })
+      .andWhere(
+        '(NOT preferences.newPosts OR NOT preferences.comments OR NOT preferences.mentions' +
+          ' OR NOT preferences.follows OR cardinality(preferences.mutedAuthorIds) > 0)',
+      )
+      .getMany();
+    const excluded = new Set(
+      customized
+        .filter((preferences) => !wantsNotification(preferences, type, actorId))
+        .map((preferences) => preferences.userId),
+    );
+
+    return recipientIds.filter((id) => !excluded.has(id));
+  }
+
+  /**
+   * Whether a notification should be pushed to the user's open sessions right now;
+   * also re-checks the toggles and mutes, which may have changed since the fan-out
+   */
+  async shouldPushLive(
+    userId: string,
+    type: NotificationType,
+    actorId: string,
+    now = new Date(),
+  ): Promise<boolean> {
+    const preferences = await this.preferencesRepository.findOne({
+      where: { userId },
+    });
+
+    return (
+      !preferences ||
+      (wantsNotification(preferences, type, actorId) &&
+        !isInQuietHours(preferences, now))
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NotificationType } from '../entities/notification-marker.entity';
+import { NotificationPreferences } from '../entities/notification-preferences.entity';
+import {
+  isInQuietHours,
+  wantsNotification,
+} from './notification-preferences.util';
+
+const preferences = (
+  overrides: Partial<NotificationPreferences> = {},
+): NotificationPreferences =>
+  ({
+    newPosts: true,
+    comments: true,
+    mentions: true,
+    follows: true,
+    mutedAuthorIds: [],
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: 'UTC',
+    ...overrides,
+  } as NotificationPreferences);
+
+describe('notification preferences', () => {
+  it('follows the toggle for the notification type', () => {
+    const prefs = preferences({ comments: false });
+
+    expect(wantsNotification(prefs, NotificationType.NEW_BLOG, 'a')).toBe(true);
+    expect(wantsNotification(prefs, NotificationType.NEW_COMMENT, 'a')).toBe(
+      false,
+    );
+  });
+
+  it('drops notifications caused by muted authors', () => {
+    const prefs = preferences({ mutedAuthorIds: ['muted'] });
+
+    expect(wantsNotification(prefs, NotificationType.NEW_BLOG, 'muted')).toBe(
+      false,
+    );
+    expect(wantsNotification(prefs, NotificationType.NEW_BLOG, 'other')).toBe(
+      true,
+    );
+  });
+
+  it('checks quiet hours in the user timezone, wrapping past midnight', () => {
+    const prefs = preferences({
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
+      timezone: 'Asia/Kolkata',
+    });
+
+    // 23:30 and 07:30 in Kolkata (UTC+5:30)
+    expect(isInQuietHours(prefs, new Date('2024-05-01T18:00:00Z'))).toBe(true);
+    expect(isInQuietHours(prefs, new Date('2024-05-01T02:00:00Z'))).toBe(false);
+  });
+
+  it('has no quiet hours unless both ends are set', () => {
+    const prefs = preferences({ quietHoursStart: '00:00' });
+
+    expect(isInQuietHours(prefs, new Date('2024-05-01T12:00:00Z'))).toBe(false);
+  });
+});
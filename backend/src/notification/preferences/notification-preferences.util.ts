@@ -0,0 +1,57 @@
+import { NotificationType } from '../entities/notification-marker.entity';
+import { NotificationPreferences } from '../entities/notification-preferences.entity';
+
+// Which toggle switches each kind of notification on and off
+const TOGGLES: Record<
+  NotificationType,
+  'newPosts' | 'comments' | 'mentions' | 'follows'
+> = {
+  [NotificationType.NEW_BLOG]: 'newPosts',
+  [NotificationType.NEW_COMMENT]: 'comments',
+};
+
+/**
+ * Whether a notification of this type, caused by actorId, may reach the user's inbox
+ */
+export const wantsNotification = (
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  actorId: string,
+): boolean =>
+  preferences[TOGGLES[type]] !== false &&
+  !preferences.mutedAuthorIds?.includes(actorId);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `now` falls in the user's quiet hours; the end is exclusive and a start after
+ * the end wraps past midnight (22:00-07:00). Equal times mean no quiet hours
+ */
+export const isInQuietHours = (
+  preferences: NotificationPreferences,
+  now: Date,
+): boolean => {
+  const { quietHoursStart, quietHoursEnd, timezone } = preferences;
+  if (!quietHoursStart || !quietHoursEnd) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const current = part('hour') * 60 + part('minute');
+
+  const start = toMinutes(quietHoursStart);
+  const end = toMinutes(quietHoursEnd);
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
@@ -0,0 +1,84 @@
+import { Resolver, Query, Mutation, Args, ID, Int } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { NotificationQueueService } from './notification-queue.service';
+import { NotificationWorkerService } from '../worker/notification-worker.service';
+import {
+  NotificationQueueFailure,
+  NotificationQueueStats,
+} from '../dto/notification-queue.response';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { UserRole } from '../../auth/entities/user.entity';
+
+const MAX_FAILURES = 100;
+
+/**
+ * Queue inspection and dead-letter handling for whoever is on call
+ */
+@Resolver()
+export class NotificationQueueResolver {
+  constructor(
+    private queueService: NotificationQueueService,
+    private workerService: NotificationWorkerService,
+  ) {}
+
+  @Query(() => NotificationQueueStats)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async notificationQueueStats(): Promise<NotificationQueueStats> {
+    return this.queueService.getStats();
+  }
+
+  @Query(() => [NotificationQueueFailure])
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async notificationQueueFailures(
+    @Args('limit', { type: () => Int, defaultValue: 20 }) limit: number,
+  ): Promise<NotificationQueueFailure[]> {
+    return this.queueService.getRecentFailures(
+      Math.max(1, Math.min(limit, MAX_FAILURES)),
+    );
+  }
+
+  /**
+   * Runs a dead-lettered event right away; it leaves the dead-letter stream only if it
+   * succeeds, otherwise the mutation fails with its error
+   */
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async replayDeadLetteredEvent(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<boolean> {
+    const event = await this.queueService.getDeadLetteredEvent(id);
+    await this.workerService.handleNow(event);
+    await this.queueService.purgeDeadLetters([id]);
+    return true;
+  }
+
+  /**
+   * Moves dead-lettered events back onto the queue with fresh attempts; all of them
+   * without ids. Returns how many were moved
+   */
+  @Mutation(() => Int)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async requeueDeadLetteredEvents(
+    @Args('ids', { type: () => [ID], nullable: true }) ids?: string[],
+  ): Promise<number> {
+    return this.queueService.requeueDeadLetters(ids);
+  }
+
+  /**
+   * Deletes dead-lettered events for good; all of them without ids
+   */
+  @Mutation(() => Int)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async purgeDeadLetteredEvents(
+    @Args('ids', { type: () => [ID], nullable: true }) ids?: string[],
+  ): Promise<number> {
+    return this.queueService.purgeDeadLetters(ids);
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  NotificationEventType,
+  NotificationQueueService,
+  QueuedEvent,
+} from './notification-queue.service';
+
+// Commands sent to Redis, in order; MULTI commands included
+let commands: unknown[][];
+let redis: Record<string, jest.Mock>;
+
+// A plain function, so restoreAllMocks can't reset it between tests
+jest.mock('ioredis', () => ({
+  Redis: function () {
+    return redis;
+  },
+}));
+
+const fakeRedis = (): Record<string, jest.Mock> => {
+  const record =
+    (name: string, result?: unknown) =>
+    (...args: unknown[]) => {
+      commands.push([name, ...args]);
+      return result;
+    };
+
+  const client: Record<string, jest.Mock> = {
+    on: jest.fn(),
+    disconnect: jest.fn(),
+    duplicate: jest.fn(() => client),
+    eval: jest.fn(record('eval', 0)),
+    xautoclaim: jest.fn(async () => ['0-0', []]),
+    xreadgroup: jest.fn(async () => null),
+    xrange: jest.fn(async () => []),
+    multi: jest.fn(() => {
+      const multi: Record<string, unknown> = {
+        exec: async () => [],
+      };
+      for (const name of ['xack', 'xdel', 'xadd', 'zadd']) {
+        multi[name] = (...args: unknown[]) => {
+          record(name)(...args);
+          return multi;
+        };
+      }
+      return multi;
+    }),
+  };
+  return client;
+};
+
+const event = {
+  type: NotificationEventType.BLOG_CREATED,
+  blogId: 'blog-1',
+  title: 'Hello',
+  authorId: 'author',
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+} as const;
+
+const queued = (attempts: number): QueuedEvent => ({
+  id: '1700000000000-0',
+  event,
+  attempts,
+});
+
+const sent = (name: string) => commands.filter(([command]) => command === name);
+
+describe('NotificationQueueService', () => {
+  const now = new Date('2024-05-01T12:00:00Z').getTime();
+  let queue: NotificationQueueService;
+
+  beforeEach(() => {
+    commands = [];
+    redis = fakeRedis();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    queue = new NotificationQueueService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes an acked event from the stream', async () => {
+    await queue.ack(queued(0));
+
+    expect(commands).toEqual([
+      [
+        'xack',
+        'notification_events',
+        'notification_workers',
+        '1700000000000-0',
+      ],
+      ['xdel', 'notification_events', '1700000000000-0'],
+    ]);
+  });
+
+  it('schedules a failed event for a retry with exponential backoff', async () => {
+    await queue.fail(queued(2), new Error('Database is down'));
+
+    const [[, key, dueAt, member]] = sent('zadd');
+    expect(key).toBe('notification_events_retry');
+    expect(dueAt).toBe(now + 4000);
+    expect(JSON.parse(member as string)).toMatchObject({
+      id: '1700000000000-0',
+      attempts: 3,
+      error: 'Database is down',
+    });
+    expect(sent('xack')).toHaveLength(1);
+    expect(sent('xdel')).toHaveLength(1);
+    expect(sent('xadd')).toHaveLength(0);
+  });
+
+  it('dead-letters an event on its last attempt', async () => {
+    await queue.fail(queued(4), new Error('Database is down'));
+
+    const [[, key, , , , , field, value, , attempts, , error]] = sent('xadd');
+    expect(key).toBe('notification_events_dead');
+    expect([field, attempts, error]).toEqual([
+      'event',
+      '5',
+      'Database is down',
+    ]);
+    expect(JSON.parse(value as string)).toMatchObject({ blogId: 'blog-1' });
+    expect(sent('zadd')).toHaveLength(0);
+    expect(sent('xack')).toHaveLength(1);
+  });
+
+  it('moves due retries back onto the stream before reading', async () => {
+    await queue.dequeueEvent(1);
+
+    const [[, , keys, retrySet, stream, dueBy]] = sent('eval');
+    expect([keys, retrySet, stream, dueBy]).toEqual([
+      2,
+      'notification_events_retry',
+      'notification_events',
+      now,
+    ]);
+  });
+
+  it('fails an event another worker left unacknowledged', async () => {
+    redis.xautoclaim.mockResolvedValueOnce([
+      '0-0',
+      [['1700000000000-0', ['event', JSON.stringify(event), 'attempts', '1']]],
+    ]);
+
+    await queue.dequeueEvent(1);
+
+    const [[, , dueAt, member]] = sent('zadd');
+    expect(dueAt).toBe(now + 2000);
+    expect(JSON.parse(member as string)).toMatchObject({
+      attempts: 2,
+      error: 'Not acknowledged in time',
+    });
+  });
+
+  it('returns a read event with its attempts so far', async () => {
+    redis.xreadgroup.mockResolvedValueOnce([
+      [
+        'notification_events',
+        [
+          [
+            '1700000000000-0',
+            ['event', JSON.stringify(event), 'attempts', '2'],
+          ],
+        ],
+      ],
+    ]);
+
+    const entry = await queue.dequeueEvent(1);
+
+    expect(entry).toMatchObject({
+      id: '1700000000000-0',
+      attempts: 2,
+      event: { type: NotificationEventType.BLOG_CREATED, blogId: 'blog-1' },
+    });
+  });
+
+  it("dead-letters an event that can't be parsed instead of returning it", async () => {
+    redis.xreadgroup.mockResolvedValueOnce([
+      ['notification_events', [['1700000000000-0', ['event', '{oops']]]],
+    ]);
+
+    expect(await queue.dequeueEvent(1)).toBeNull();
+    expect(sent('xadd')[0][1]).toBe('notification_events_dead');
+  });
+
+  it('requeues dead letters with their attempts reset', async () => {
+    redis.xrange.mockResolvedValueOnce([
+      ['1700000000000-0', ['event', JSON.stringify(event), 'attempts', '5']],
+    ]);
+
+    expect(await queue.requeueDeadLetters()).toBe(1);
+    expect(sent('xadd')).toEqual([
+      [
+        'xadd',
+        'notification_events',
+        '*',
+        'event',
+        JSON.stringify(event),
+        'attempts',
+        '0',
+      ],
+    ]);
+    expect(sent('xdel')).toEqual([
+      ['xdel', 'notification_events_dead', '1700000000000-0'],
+    ]);
+  });
+});
@@ -1,6 +1,24 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
 import { getRedisConfig } from '../../config/redis.config';
+import {
+  NotificationQueueFailure,
+  NotificationQueueStats,
+} from '../dto/notification-queue.response';
+
+export enum NotificationEventType {
+  BLOG_CREATED = 'BLOG_CREATED',
+  COMMENT_ADDED = 'COMMENT_ADDED',
+  BLOG_UPDATED = 'BLOG_UPDATED',
+  BLOG_DELETED = 'BLOG_DELETED',
+}
 
 export interface BlogCreatedEvent {
   blogId: string;
@@ -9,10 +27,104 @@ export interface BlogCreatedEvent {
   createdAt: Date;
 }
 
+export interface CommentAddedEvent {
+  commentId: string;
+  blogId: string;
+  authorId: string;
+  createdAt: Date;
+}
+
+export interface BlogUpdatedEvent {
+  blogId: string;
+  authorId: string;
+  updatedAt: Date;
+}
+
+/**
+ * Sent when a post stops being public: trashed, purged or hidden by a moderator
+ */
+export interface BlogDeletedEvent {
+  blogId: string;
+  authorId: string;
+  deletedAt: Date;
+}
+
+/**
+ * Envelope stored on the queue - `type` tells the worker which handler to use
+ */
+export type NotificationEvent =
+  | ({ type: NotificationEventType.BLOG_CREATED } & BlogCreatedEvent)
+  | ({ type: NotificationEventType.COMMENT_ADDED } & CommentAddedEvent)
+  | ({ type: NotificationEventType.BLOG_UPDATED } & BlogUpdatedEvent)
+  | ({ type: NotificationEventType.BLOG_DELETED } & BlogDeletedEvent);
+
+/**
+ * An event read from the stream, held by this worker until it is acked or failed
+ */
+export interface QueuedEvent {
+  id: string;
+  event: NotificationEvent;
+  // Failed attempts so far
+  attempts: number;
+}
+
+type StreamEntry = [id: string, fields: string[]];
+
+const toRecord = (fields: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    values[fields[i]] = fields[i + 1];
+  }
+  return values;
+};
+
+// Events queued before comment support carry no type
+const parseEvent = (raw: string): NotificationEvent => ({
+  type: NotificationEventType.BLOG_CREATED,
+  ...JSON.parse(raw),
+});
+
+// Stream ids start with the time the entry was added, in milliseconds
+const streamIdTime = (id: string): number => Number(id.split('-')[0]);
+
+// Moves retries that are due back onto the stream; atomic, so concurrent workers can't both move one
+const PROMOTE_RETRIES_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, member in ipairs(due) do
+  local retry = cjson.decode(member)
+  redis.call('XADD', KEYS[2], '*', 'event', retry.event, 'attempts', retry.attempts)
+  redis.call('ZREM', KEYS[1], member)
+end
+return #due
+`;
+
+/**
+ * Notification events on a Redis stream, read through a consumer group
+ * An event stays pending until the worker acks it. A failed event is retried with
+ * exponential backoff and dead-lettered after MAX_ATTEMPTS; events left pending by a
+ * worker that died are reclaimed (XAUTOCLAIM) and count as a failed attempt
+ */
 @Injectable()
-export class NotificationQueueService implements OnModuleInit {
+export class NotificationQueueService implements OnModuleInit, OnModuleDestroy {
   private redis: Redis;
-  private readonly QUEUE_NAME = 'blog_created_events';
+  private reader: Redis;
+  private readonly STREAM = 'notification_events';
+  private readonly GROUP = 'notification_workers';
+  // Failed events waiting out their backoff, scored by when they are due
+  private readonly RETRY_SET = 'notification_events_retry';
+  private readonly DEAD_LETTER_STREAM = 'notification_events_dead';
+  // The list used before the stream; drained into the stream at startup
+  private readonly LEGACY_QUEUE = 'blog_created_events';
+  private readonly consumer = randomUUID();
+
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly RETRY_BASE_DELAY_MS = 1000;
+  private readonly RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+  // Pending this long without an ack means the worker that read it is gone
+  private readonly RECLAIM_IDLE_MS = 60 * 1000;
+  private readonly MAINTENANCE_INTERVAL_MS = 1000;
+  private readonly DEAD_LETTER_MAX_LENGTH = 10000;
+  private lastMaintenance = 0;
 
   constructor() {
     const redisConfig = getRedisConfig();
@@ -43,10 +155,21 @@ export class NotificationQueueService implements OnModuleInit {
     this.redis.on('connect', () => {
       // Notification Queue Redis connected
     });
+
+    // XREADGROUP BLOCK holds its connection, so reads get their own
+    this.reader = this.redis.duplicate();
+    this.reader.on('error', (err) => {
+      console.error('Notification Queue Redis reader error:', err);
+    });
   }
 
   async onModuleInit() {
-    // Queue service is ready
+    await this.ensureGroup();
+    await this.drainLegacyQueue();
+  }
+
+  async onModuleDestroy() {
+    this.reader.disconnect();
   }
 
   /**
@@ -54,7 +177,10 @@ export class NotificationQueueService implements OnModuleInit {
    */
   async enqueueBlogCreatedEvent(event: BlogCreatedEvent): Promise<void> {
     try {
-      await this.redis.lpush(this.QUEUE_NAME, JSON.stringify(event));
+      await this.enqueue({
+        type: NotificationEventType.BLOG_CREATED,
+        ...event,
+      });
     } catch (error) {
       console.error('Error enqueueing blog created event:', error);
       throw error;
@@ -62,32 +188,423 @@ export class NotificationQueueService implements OnModuleInit {
   }
 
   /**
-   * Dequeue a blog created event from the notification queue (blocking)
-   * Used by the notification worker
+   * Enqueue a comment added event - the worker notifies the blog author
    */
-  async dequeueBlogCreatedEvent(timeout: number = 5): Promise<BlogCreatedEvent | null> {
+  async enqueueCommentAddedEvent(event: CommentAddedEvent): Promise<void> {
     try {
-      const result = await this.redis.brpop(this.QUEUE_NAME, timeout);
-      if (result && result[1]) {
-        return JSON.parse(result[1]) as BlogCreatedEvent;
-      }
-      return null;
+      await this.enqueue({
+        type: NotificationEventType.COMMENT_ADDED,
+        ...event,
+      });
     } catch (error) {
-      console.error('Error dequeueing blog created event:', error);
+      console.error('Error enqueueing comment added event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enqueue a blog updated event - the worker pushes the new title/excerpt to clients
+   */
+  async enqueueBlogUpdatedEvent(event: BlogUpdatedEvent): Promise<void> {
+    try {
+      await this.enqueue({
+        type: NotificationEventType.BLOG_UPDATED,
+        ...event,
+      });
+    } catch (error) {
+      console.error('Error enqueueing blog updated event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enqueue a blog deleted event - the worker tells clients to retract the post
+   */
+  async enqueueBlogDeletedEvent(event: BlogDeletedEvent): Promise<void> {
+    try {
+      await this.enqueue({
+        type: NotificationEventType.BLOG_DELETED,
+        ...event,
+      });
+    } catch (error) {
+      console.error('Error enqueueing blog deleted event:', error);
+      throw error;
+    }
+  }
+
+  private async enqueue(event: NotificationEvent): Promise<void> {
+    await this.redis.xadd(
+      this.STREAM,
+      '*',
+      'event',
+      JSON.stringify(event),
+      'attempts',
+      '0',
+    );
+  }
+
+  /**
+   * Read the next notification event (blocking for up to `timeout` seconds)
+   * Used by the notification worker, which must ack or fail every event it gets
+   */
+  async dequeueEvent(timeout = 5): Promise<QueuedEvent | null> {
+    try {
+      await this.runMaintenance();
+
+      const result = (await this.reader.xreadgroup(
+        'GROUP',
+        this.GROUP,
+        this.consumer,
+        'COUNT',
+        1,
+        'BLOCK',
+        timeout * 1000,
+        'STREAMS',
+        this.STREAM,
+        '>',
+      )) as [string, StreamEntry[]][] | null;
+
+      const entry = result?.[0]?.[1]?.[0];
+      return entry ? await this.parseEntry(entry) : null;
+    } catch (error) {
+      console.error('Error dequeueing notification event:', error);
+      // The stream was removed from Redis (e.g. flushed) along with its group
+      if (String(error?.message).includes('NOGROUP')) {
+        await this.ensureGroup();
+      }
       return null;
     }
   }
 
   /**
-   * Get queue length
+   * Done with an event; it leaves the stream
+   */
+  async ack(entry: QueuedEvent): Promise<void> {
+    await this.redis
+      .multi()
+      .xack(this.STREAM, this.GROUP, entry.id)
+      .xdel(this.STREAM, entry.id)
+      .exec();
+  }
+
+  /**
+   * Schedules a retry after a backoff, or moves the event to the dead-letter stream
+   * once it has used up its attempts
+   */
+  async fail(entry: QueuedEvent, error: unknown): Promise<void> {
+    const attempts = entry.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    const event = JSON.stringify(entry.event);
+
+    if (attempts >= this.MAX_ATTEMPTS) {
+      await this.deadLetter(entry.id, event, attempts, message);
+      return;
+    }
+
+    const delay = Math.min(
+      this.RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      this.RETRY_MAX_DELAY_MS,
+    );
+    await this.redis
+      .multi()
+      .zadd(
+        this.RETRY_SET,
+        Date.now() + delay,
+        JSON.stringify({
+          id: entry.id,
+          event,
+          attempts,
+          error: message,
+          failedAt: new Date().toISOString(),
+        }),
+      )
+      .xack(this.STREAM, this.GROUP, entry.id)
+      .xdel(this.STREAM, entry.id)
+      .exec();
+  }
+
+  /**
+   * Events waiting in the stream or being processed; retries and dead letters not included
    */
   async getQueueLength(): Promise<number> {
     try {
-      return await this.redis.llen(this.QUEUE_NAME);
+      return await this.redis.xlen(this.STREAM);
     } catch (error) {
       console.error('Error getting queue length:', error);
       return 0;
     }
   }
-}
 
+  /**
+   * Counts for the admin queue operations; in flight is what workers have read but not acked
+   */
+  async getStats(): Promise<NotificationQueueStats> {
+    const [length, pendingSummary, retrying, deadLettered, oldest] = (
+      await this.redis
+        .multi()
+        .xlen(this.STREAM)
+        .xpending(this.STREAM, this.GROUP)
+        .zcard(this.RETRY_SET)
+        .xlen(this.DEAD_LETTER_STREAM)
+        .xrange(this.STREAM, '-', '+', 'COUNT', 1)
+        .exec()
+    ).map(([error, result]) => {
+      if (error) {
+        throw error;
+      }
+      return result;
+    }) as [number, [number, ...unknown[]], number, number, StreamEntry[]];
+
+    const inFlight = Number(pendingSummary[0]) || 0;
+    return {
+      pending: Math.max(0, length - inFlight),
+      inFlight,
+      retrying,
+      deadLettered,
+      oldestEventAgeSeconds: oldest.length
+        ? Math.max(
+            0,
+            Math.floor((Date.now() - streamIdTime(oldest[0][0])) / 1000),
+          )
+        : null,
+    };
+  }
+
+  /**
+   * The latest failures, dead-lettered or waiting for a retry, newest first
+   */
+  async getRecentFailures(limit: number): Promise<NotificationQueueFailure[]> {
+    const [deadLetters, retries] = await Promise.all([
+      this.redis.xrevrange(this.DEAD_LETTER_STREAM, '+', '-', 'COUNT', limit),
+      this.redis.zrevrange(this.RETRY_SET, 0, limit - 1, 'WITHSCORES'),
+    ]);
+
+    const failures: NotificationQueueFailure[] = deadLetters.map(
+      ([id, fields]) => {
+        const values = toRecord(fields);
+        return {
+          id,
+          type: this.eventType(values.event),
+          event: values.event,
+          attempts: Number(values.attempts) || 0,
+          error: values.error ?? '',
+          failedAt: new Date(values.failedAt ?? streamIdTime(id)),
+          deadLettered: true,
+          retryAt: null,
+        };
+      },
+    );
+
+    for (let i = 0; i < retries.length; i += 2) {
+      const retry = JSON.parse(retries[i]);
+      failures.push({
+        id: retry.id,
+        type: this.eventType(retry.event),
+        event: retry.event,
+        attempts: retry.attempts,
+        error: retry.error ?? '',
+        // Retries queued before failedAt was recorded
+        failedAt: new Date(retry.failedAt ?? streamIdTime(retry.id)),
+        deadLettered: false,
+        retryAt: new Date(Number(retries[i + 1])),
+      });
+    }
+
+    return failures
+      .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getDeadLetteredEvent(id: string): Promise<NotificationEvent> {
+    const [entry] = await this.redis.xrange(this.DEAD_LETTER_STREAM, id, id);
+    if (!entry) {
+      throw new NotFoundException('Dead-lettered event not found');
+    }
+
+    try {
+      return parseEvent(toRecord(entry[1]).event);
+    } catch {
+      throw new BadRequestException(
+        "The event can't be parsed; purge it instead",
+      );
+    }
+  }
+
+  /**
+   * Puts dead-lettered events (all of them when no ids are given) back on the stream
+   * with their attempts reset; returns how many were moved
+   */
+  async requeueDeadLetters(ids?: string[] | null): Promise<number> {
+    const entries: StreamEntry[] = ids
+      ? (
+          await Promise.all(
+            ids.map((id) => this.redis.xrange(this.DEAD_LETTER_STREAM, id, id)),
+          )
+        ).flat()
+      : await this.redis.xrange(this.DEAD_LETTER_STREAM, '-', '+');
+    if (!entries.length) {
+      return 0;
+    }
+
+    const multi = this.redis.multi();
+    for (const [id, fields] of entries) {
+      multi
+        .xadd(
+          this.STREAM,
+          '*',
+          'event',
+          toRecord(fields).event,
+          'attempts',
+          '0',
+        )
+        .xdel(this.DEAD_LETTER_STREAM, id);
+    }
+    await multi.exec();
+
+    return entries.length;
+  }
+
+  /**
+   * Deletes dead-lettered events (all of them when no ids are given); returns how many
+   */
+  async purgeDeadLetters(ids?: string[] | null): Promise<number> {
+    if (ids) {
+      return ids.length ? this.redis.xdel(this.DEAD_LETTER_STREAM, ...ids) : 0;
+    }
+
+    const [[, count]] = await this.redis
+      .multi()
+      .xlen(this.DEAD_LETTER_STREAM)
+      .del(this.DEAD_LETTER_STREAM)
+      .exec();
+    return Number(count) || 0;
+  }
+
+  private eventType(raw: string): string {
+    try {
+      return parseEvent(raw).type;
+    } catch {
+      return 'UNKNOWN';
+    }
+  }
+
+  private async deadLetter(
+    id: string,
+    event: string,
+    attempts: number,
+    message: string,
+  ): Promise<void> {
+    console.error(
+      `Dead-lettering notification event ${id} after ${attempts} attempts: ${message}`,
+    );
+    await this.redis
+      .multi()
+      .xadd(
+        this.DEAD_LETTER_STREAM,
+        'MAXLEN',
+        '~',
+        this.DEAD_LETTER_MAX_LENGTH,
+        '*',
+        'event',
+        event,
+        'attempts',
+        String(attempts),
+        'error',
+        message,
+        'failedAt',
+        new Date().toISOString(),
+      )
+      .xack(this.STREAM, this.GROUP, id)
+      .xdel(this.STREAM, id)
+      .exec();
+  }
+
+  /**
+   * At most once per MAINTENANCE_INTERVAL_MS: puts due retries back on the stream and
+   * reclaims one abandoned event, which is failed so it backs off like any other failure
+   */
+  private async runMaintenance(): Promise<void> {
+    if (Date.now() - this.lastMaintenance < this.MAINTENANCE_INTERVAL_MS) {
+      return;
+    }
+    this.lastMaintenance = Date.now();
+
+    await this.redis.eval(
+      PROMOTE_RETRIES_SCRIPT,
+      2,
+      this.RETRY_SET,
+      this.STREAM,
+      Date.now(),
+      100,
+    );
+
+    const [, claimed] = (await this.redis.xautoclaim(
+      this.STREAM,
+      this.GROUP,
+      this.consumer,
+      this.RECLAIM_IDLE_MS,
+      '0-0',
+      'COUNT',
+      1,
+    )) as [string, StreamEntry[]];
+
+    const entry = claimed?.[0] ? await this.parseEntry(claimed[0]) : null;
+    if (entry) {
+      await this.fail(entry, new Error('Not acknowledged in time'));
+    }
+  }
+
+  /**
+   * Entries whose event can't be parsed are dead-lettered straight away (null)
+   */
+  private async parseEntry([
+    id,
+    fields,
+  ]: StreamEntry): Promise<QueuedEvent | null> {
+    const values = toRecord(fields);
+    const attempts = Number(values.attempts) || 0;
+
+    try {
+      return { id, event: parseEvent(values.event), attempts };
+    } catch (error) {
+      await this.deadLetter(
+        id,
+        values.event ?? '',
+        attempts + 1,
+        error.message,
+      );
+      return null;
+    }
+  }
+
+  private async ensureGroup(): Promise<void> {
+    try {
+      await this.redis.xgroup(
+        'CREATE',
+        this.STREAM,
+        this.GROUP,
+        '0',
+        'MKSTREAM',
+      );
+    } catch (error) {
+      // The group outlives restarts
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        console.error('Error creating notification consumer group:', error);
+      }
+    }
+  }
+
+  /**
+   * Moves events queued on the old list (before a deploy) onto the stream
+   */
+  private async drainLegacyQueue(): Promise<void> {
+    try {
+      let raw: string | null;
+      while ((raw = await this.redis.rpop(this.LEGACY_QUEUE))) {
+        await this.redis.xadd(this.STREAM, '*', 'event', raw, 'attempts', '0');
+      }
+    } catch (error) {
+      console.error('Error draining the legacy notification queue:', error);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { LessThan, Repository } from 'typeorm';
+import { NotificationRecipientService } from './notification-recipient.service';
+import { CommentService } from '../../comment/comment.service';
+import { User } from '../../auth/entities/user.entity';
+import { Blog } from '../../blog/entities/blog.entity';
+import { Comment } from '../../comment/entities/comment.entity';
+
+const blog = { id: 'blog-1', authorId: 'author' } as Blog;
+
+const parent = {
+  id: 'parent',
+  blogId: blog.id,
+  authorId: 'reader',
+  deletedAt: null,
+} as Comment;
+
+describe('NotificationRecipientService', () => {
+  let userRepository: Partial<Repository<User>>;
+  let recipients: NotificationRecipientService;
+
+  beforeEach(() => {
+    userRepository = { find: jest.fn().mockResolvedValue([{ id: 'reader' }]) };
+    const commentService: Partial<CommentService> = {
+      findOne: jest.fn(async () => parent),
+    };
+    recipients = new NotificationRecipientService(
+      userRepository as Repository<User>,
+      commentService as CommentService,
+    );
+  });
+
+  it('sends a new post to users who signed up before it was published', async () => {
+    const publishAt = new Date('2024-05-10T00:00:00Z');
+    const draft = {
+      ...blog,
+      createdAt: new Date('2024-05-01T00:00:00Z'),
+      publishAt,
+    } as Blog;
+
+    expect(await recipients.forNewBlog(draft)).toEqual(['reader']);
+    expect(userRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ createdAt: LessThan(publishAt) }),
+      }),
+    );
+  });
+
+  it("sends the post's author's reply to the reader they replied to", async () => {
+    const reply = {
+      id: 'reply',
+      blogId: blog.id,
+      parentId: parent.id,
+      authorId: blog.authorId,
+    } as Comment;
+
+    expect(await recipients.forComment(reply, blog)).toEqual(['reader']);
+  });
+
+  it("sends a reader's reply to the post's author and the parent's author", async () => {
+    const reply = {
+      id: 'reply',
+      blogId: blog.id,
+      parentId: parent.id,
+      authorId: 'someone',
+    } as Comment;
+
+    expect(await recipients.forComment(reply, blog)).toEqual([
+      'author',
+      'reader',
+    ]);
+  });
+});
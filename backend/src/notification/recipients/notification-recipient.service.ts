@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Not, Repository } from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { Blog } from '../../blog/entities/blog.entity';
+import { Comment } from '../../comment/entities/comment.entity';
+import { CommentService } from '../../comment/comment.service';
+
+/**
+ * Who a notification goes to; the worker writes one inbox row per recipient
+ * People never get notified about their own posts or comments
+ */
+@Injectable()
+export class NotificationRecipientService {
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private commentService: CommentService,
+  ) {}
+
+  /**
+   * A new post goes to everyone who had signed up by the time it went public, which for
+   * drafts and scheduled posts can be long after it was written
+   */
+  async forNewBlog(blog: Blog): Promise<string[]> {
+    const users = await this.userRepository.find({
+      select: ['id'],
+      where: {
+        id: Not(blog.authorId),
+        createdAt: LessThan(blog.publishAt ?? blog.createdAt),
+      },
+    });
+
+    return users.map((user) => user.id);
+  }
+
+  /**
+   * A comment goes to the post's author and, for a reply, to the author of the parent comment
+   */
+  async forComment(comment: Comment, blog: Blog): Promise<string[]> {
+    const recipients = new Set([blog.authorId]);
+
+    if (comment.parentId) {
+      const parent = await this.commentService
+        .findOne(comment.parentId)
+        .catch(() => null);
+      if (parent && !parent.deletedAt) {
+        recipients.add(parent.authorId);
+      }
+    }
+
+    recipients.delete(comment.authorId);
+    return [...recipients];
+  }
+}
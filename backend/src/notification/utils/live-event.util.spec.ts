@@ -0,0 +1,29 @@
+import { decodeLiveEvent, encodeLiveEvent } from './live-event.util';
+
+describe('live event encoding', () => {
+  it('round-trips nested Date values', () => {
+    const createdAt = new Date('2024-05-01T10:20:30.456Z');
+    const event = {
+      origin: 'instance-a',
+      trigger: 'commentAdded.blog-1',
+      payload: { commentAdded: { id: 'c1', createdAt, author: { createdAt } } },
+    };
+
+    const decoded = decodeLiveEvent(encodeLiveEvent(event));
+
+    expect(decoded).toEqual(event);
+    expect((decoded.payload as any).commentAdded.createdAt).toBeInstanceOf(
+      Date,
+    );
+  });
+
+  it('leaves date-looking strings alone', () => {
+    const event = {
+      origin: 'instance-a',
+      trigger: 't',
+      payload: { content: '2024-05-01T10:20:30.456Z' },
+    };
+
+    expect(decodeLiveEvent(encodeLiveEvent(event))).toEqual(event);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Envelope for subscription events relayed between instances over Redis
+ */
+export interface LiveEvent {
+  origin: string;
+  trigger: string;
+  payload: unknown;
+}
+
+// Dates are tagged on the way out so they come back as Date objects -
+// the DateTime scalar refuses to serialize plain strings
+const DATE_TAG = '$date';
+
+/**
+ * JSON for anything sent over Redis, with its Date values tagged
+ */
+export const encodeWithDates = (value: unknown): string =>
+  JSON.stringify(value, function (key, value) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : value;
+  });
+
+export const decodeWithDates = <T>(message: string): T =>
+  JSON.parse(message, (key, value) =>
+    value && typeof value === 'object' && typeof value[DATE_TAG] === 'string'
+      ? new Date(value[DATE_TAG])
+      : value,
+  );
+
+export const encodeLiveEvent = (event: LiveEvent): string =>
+  encodeWithDates(event);
+
+export const decodeLiveEvent = (message: string): LiveEvent =>
+  decodeWithDates<LiveEvent>(message);
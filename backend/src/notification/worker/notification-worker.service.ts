@@ -1,7 +1,27 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { NotificationQueueService } from '../queue/notification-queue.service';
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  BlogCreatedEvent,
+  BlogDeletedEvent,
+  BlogUpdatedEvent,
+  CommentAddedEvent,
+  NotificationEvent,
+  NotificationEventType,
+  NotificationQueueService,
+} from '../queue/notification-queue.service';
 import { NotificationService } from '../notification.service';
+import { BlogChangeType } from '../dto/blog-changed.dto';
+import { NotificationType } from '../entities/notification-marker.entity';
 import { BlogService } from '../../blog/blog.service';
+import { BlogRelatedService } from '../../blog/related/blog-related.service';
+import { isBlogPublic } from '../../blog/utils/blog-visibility.util';
+import { CommentService } from '../../comment/comment.service';
+import { NotificationRecipientService } from '../recipients/notification-recipient.service';
+import { NotificationPreferencesService } from '../preferences/notification-preferences.service';
 
 @Injectable()
 export class NotificationWorkerService implements OnModuleInit, OnModuleDestroy {
@@ -13,6 +33,10 @@ export class NotificationWorkerService implements OnModuleInit, OnModuleDestroy
     private queueService: NotificationQueueService,
     private notificationService: NotificationService,
     private blogService: BlogService,
+    private blogRelatedService: BlogRelatedService,
+    private commentService: CommentService,
+    private recipientService: NotificationRecipientService,
+    private preferencesService: NotificationPreferencesService,
   ) {}
 
   async onModuleInit() {
@@ -56,10 +80,21 @@ export class NotificationWorkerService implements OnModuleInit, OnModuleDestroy
 
     try {
       // Try to dequeue an event (non-blocking with short timeout)
-      const event = await this.queueService.dequeueBlogCreatedEvent(1);
+      const entry = await this.queueService.dequeueEvent(1);
 
-      if (event) {
-        await this.processBlogCreatedEvent(event);
+      if (entry) {
+        // Acked only once handled; a failure goes back to the queue for a retry
+        try {
+          await this.processEvent(entry.event);
+          await this.queueService.ack(entry);
+        } catch (error) {
+          // The post or comment is gone for good; retrying won't bring it back
+          if (error instanceof NotFoundException) {
+            await this.queueService.ack(entry);
+          } else {
+            await this.queueService.fail(entry, error);
+          }
+        }
       }
     } catch (error) {
       console.error('Error processing queue:', error);
@@ -73,10 +108,38 @@ export class NotificationWorkerService implements OnModuleInit, OnModuleDestroy
     }
   }
 
+  /**
+   * Handles one event right away, outside the queue (replaying a dead-lettered event)
+   * Throws when it fails again, so the caller can keep it dead-lettered
+   */
+  async handleNow(event: NotificationEvent): Promise<void> {
+    try {
+      await this.processEvent(event);
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+  }
+
+  private async processEvent(event: NotificationEvent): Promise<void> {
+    if (event.type === NotificationEventType.COMMENT_ADDED) {
+      await this.processCommentAddedEvent(event);
+    } else if (event.type === NotificationEventType.BLOG_UPDATED) {
+      await this.processBlogUpdatedEvent(event);
+    } else if (event.type === NotificationEventType.BLOG_DELETED) {
+      await this.processBlogDeletedEvent(event);
+    } else {
+      await this.processBlogCreatedEvent(event);
+    }
+  }
+
   /**
    * Process a single blog created event
    */
-  private async processBlogCreatedEvent(event: any): Promise<void> {
+  private async processBlogCreatedEvent(
+    event: BlogCreatedEvent,
+  ): Promise<void> {
     try {
       // Fetch the full blog with relations
       const blog = await this.blogService.findOne(event.blogId);
@@ -86,13 +149,135 @@ export class NotificationWorkerService implements OnModuleInit, OnModuleDestroy
         return;
       }
 
-      // Create notification marker (this persists to DB and publishes to PubSub)
-      await this.notificationService.createMarker(blog);
+      // Markers are only created for public posts (not drafts or posts hidden by a moderator)
+      if (!isBlogPublic(blog)) {
+        console.warn(
+          `Skipping notification for unpublished blog: ${event.blogId}`,
+        );
+        return;
+      }
+
+      // Create notification marker and fan it out to each recipient's inbox
+      // (this persists to DB and publishes to PubSub), minus those who opted out
+      const recipientIds = await this.preferencesService.filterRecipients(
+        await this.recipientService.forNewBlog(blog),
+        NotificationType.NEW_BLOG,
+        blog.authorId,
+      );
+      await this.notificationService.createMarker(blog, recipientIds);
+      await this.refreshRelatedPosts(blog.id);
     } catch (error) {
       console.error(`Error processing blog created event ${event.blogId}:`, error);
-      // In production, you might want to implement retry logic or dead letter queue
+      // The queue retries it with backoff, then dead-letters it
       throw error;
     }
   }
-}
 
+  /**
+   * Process a single comment added event - notifies the blog's author
+   */
+  private async processCommentAddedEvent(
+    event: CommentAddedEvent,
+  ): Promise<void> {
+    try {
+      const comment = await this.commentService.findOne(event.commentId);
+
+      // Removed before the worker got to it
+      if (comment.deletedAt) {
+        return;
+      }
+
+      const blog = await this.blogService.findOne(comment.blogId);
+
+      // Empty when authors reply to themselves on their own post,
+      // or when everyone involved switched comment notifications off
+      const recipientIds = await this.preferencesService.filterRecipients(
+        await this.recipientService.forComment(comment, blog),
+        NotificationType.NEW_COMMENT,
+        comment.authorId,
+      );
+      if (!recipientIds.length) {
+        return;
+      }
+
+      await this.notificationService.createCommentMarker(
+        comment,
+        blog,
+        recipientIds,
+      );
+    } catch (error) {
+      console.error(
+        `Error processing comment added event ${event.commentId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Process a single blog updated event - pushes the post's current state to clients
+   */
+  private async processBlogUpdatedEvent(
+    event: BlogUpdatedEvent,
+  ): Promise<void> {
+    try {
+      const blog = await this.blogService
+        .findOne(event.blogId)
+        .catch(() => null);
+
+      // Trashed or hidden since the edit: clients should drop it rather than patch it
+      if (!blog || !isBlogPublic(blog)) {
+        await this.notificationService.publishBlogChange(
+          BlogChangeType.DELETED,
+          event.blogId,
+        );
+        return;
+      }
+
+      await this.notificationService.publishBlogChange(
+        BlogChangeType.UPDATED,
+        blog.id,
+        blog,
+      );
+      await this.refreshRelatedPosts(blog.id);
+    } catch (error) {
+      console.error(
+        `Error processing blog updated event ${event.blogId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Process a single blog deleted event - tells clients to retract the post
+   */
+  private async processBlogDeletedEvent(
+    event: BlogDeletedEvent,
+  ): Promise<void> {
+    try {
+      await this.notificationService.publishBlogChange(
+        BlogChangeType.DELETED,
+        event.blogId,
+      );
+    } catch (error) {
+      console.error(
+        `Error processing blog deleted event ${event.blogId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes the post's related posts; recommendations are only a nicety, so a
+   * failure is logged rather than failing the event
+   */
+  private async refreshRelatedPosts(blogId: string): Promise<void> {
+    try {
+      await this.blogRelatedService.refresh(blogId);
+    } catch (error) {
+      console.error(`Error refreshing related posts for ${blogId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { ObjectType, Field, Int, ID } from '@nestjs/graphql';
+import { ReactionType } from '../entities/reaction.entity';
+
+@ObjectType()
+export class ReactionCount {
+  @Field(() => ReactionType)
+  type: ReactionType;
+
+  @Field(() => Int)
+  count: number;
+}
+
+/**
+ * Pushed to blogReactionsUpdated subscribers whenever a blog's counts change
+ */
+@ObjectType()
+export class BlogReactionsPayload {
+  @Field(() => ID)
+  blogId: string;
+
+  @Field(() => [ReactionCount])
+  reactionCounts: ReactionCount[];
+}
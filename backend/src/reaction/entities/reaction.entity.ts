@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+import { registerEnumType } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+import { User } from '../../auth/entities/user.entity';
+
+export enum ReactionType {
+  LIKE = 'LIKE',
+  LOVE = 'LOVE',
+  LAUGH = 'LAUGH',
+  WOW = 'WOW',
+  SAD = 'SAD',
+  CELEBRATE = 'CELEBRATE',
+}
+
+registerEnumType(ReactionType, { name: 'ReactionType' });
+
+/**
+ * One reaction of one type by one user on one blog
+ * Exposed only in aggregate (Blog.reactionCounts / Blog.viewerReactions)
+ */
+@Entity('reactions')
+@Unique('UQ_reactions_user_blog_type', ['userId', 'blogId', 'type'])
+@Index(['blogId', 'type'])
+export class Reaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: ReactionType })
+  type: ReactionType;
+
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
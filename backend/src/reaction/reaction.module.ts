@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Reaction } from './entities/reaction.entity';
+import { ReactionService } from './reaction.service';
+import { ReactionResolver } from './reaction.resolver';
+import { BlogModule } from '../blog/blog.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Reaction]), BlogModule],
+  providers: [ReactionService, ReactionResolver],
+})
+export class ReactionModule {}
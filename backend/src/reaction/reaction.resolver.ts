@@ -0,0 +1,95 @@
+import {
+  Resolver,
+  Mutation,
+  Subscription,
+  Args,
+  ID,
+  Context,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { ReactionService, reactionsUpdatedTrigger } from './reaction.service';
+import { ReactionType } from './entities/reaction.entity';
+import {
+  BlogReactionsPayload,
+  ReactionCount,
+} from './dto/reaction-count.response';
+import { Blog } from '../blog/entities/blog.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+import { NotificationService } from '../notification/notification.service';
+import { getRequestLoader } from '../common/dataloader/request-loader.util';
+
+/**
+ * Adds reaction fields and mutations to Blog
+ */
+@Resolver(() => Blog)
+export class ReactionResolver {
+  constructor(
+    private reactionService: ReactionService,
+    private notificationService: NotificationService,
+  ) {}
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async react(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('type', { type: () => ReactionType }) type: ReactionType,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.reactionService.react(blogId, type, context.req.user);
+  }
+
+  @Mutation(() => Blog)
+  @UseGuards(JwtAuthGuard)
+  async unreact(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('type', { type: () => ReactionType }) type: ReactionType,
+    @Context() context: { req: { user: User } },
+  ): Promise<Blog> {
+    return this.reactionService.unreact(blogId, type, context.req.user);
+  }
+
+  /**
+   * Live reaction counts for one blog
+   */
+  @Subscription(() => BlogReactionsPayload)
+  blogReactionsUpdated(@Args('blogId', { type: () => ID }) blogId: string) {
+    return this.notificationService
+      .getPubSub()
+      .asyncIterator(reactionsUpdatedTrigger(blogId));
+  }
+
+  @ResolveField(() => [ReactionCount])
+  async reactionCounts(
+    @Parent() blog: Blog,
+    @Context() context: object,
+  ): Promise<ReactionCount[]> {
+    return getRequestLoader<string, ReactionCount[]>(
+      context,
+      'blogReactionCounts',
+      (blogIds) => this.reactionService.countForBlogs(blogIds),
+    ).load(blog.id);
+  }
+
+  /**
+   * Reaction types the current user has left on the blog (empty when signed out)
+   */
+  @ResolveField(() => [ReactionType])
+  async viewerReactions(
+    @Parent() blog: Blog,
+    @Context() context: { req?: { user?: User } },
+  ): Promise<ReactionType[]> {
+    const viewer = context.req?.user;
+    if (!viewer?.id) {
+      return [];
+    }
+
+    return getRequestLoader<string, ReactionType[]>(
+      context,
+      `viewerReactions:${viewer.id}`,
+      (blogIds) => this.reactionService.findTypesForUser(blogIds, viewer.id),
+    ).load(blog.id);
+  }
+}
@@ -0,0 +1,132 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Reaction, ReactionType } from './entities/reaction.entity';
+import { ReactionCount } from './dto/reaction-count.response';
+import { BlogService } from '../blog/blog.service';
+import { Blog } from '../blog/entities/blog.entity';
+import { isBlogPublic } from '../blog/utils/blog-visibility.util';
+import { User } from '../auth/entities/user.entity';
+import { NotificationService } from '../notification/notification.service';
+
+/**
+ * PubSub trigger for a blog's blogReactionsUpdated subscription
+ */
+export const reactionsUpdatedTrigger = (blogId: string) =>
+  `blogReactionsUpdated.${blogId}`;
+
+@Injectable()
+export class ReactionService {
+  constructor(
+    @InjectRepository(Reaction)
+    private reactionRepository: Repository<Reaction>,
+    private blogService: BlogService,
+    private notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Adds a reaction; reacting twice with the same type is a no-op
+   */
+  async react(blogId: string, type: ReactionType, user: User): Promise<Blog> {
+    const blog = await this.findReactableBlog(blogId, user);
+
+    // The unique (user, blog, type) constraint makes concurrent double-clicks safe
+    const result = await this.reactionRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Reaction)
+      .values({ blogId: blog.id, type, userId: user.id })
+      .orIgnore()
+      .execute();
+
+    if (result.raw?.length) {
+      await this.publishCounts(blog.id);
+    }
+
+    return blog;
+  }
+
+  async unreact(blogId: string, type: ReactionType, user: User): Promise<Blog> {
+    const blog = await this.findReactableBlog(blogId, user);
+
+    const result = await this.reactionRepository.delete({
+      blogId: blog.id,
+      type,
+      userId: user.id,
+    });
+
+    if (result.affected) {
+      await this.publishCounts(blog.id);
+    }
+
+    return blog;
+  }
+
+  /**
+   * Batch loader for Blog.reactionCounts: every type in a fixed order, zeros included
+   */
+  async countForBlogs(blogIds: readonly string[]): Promise<ReactionCount[][]> {
+    const rows = await this.reactionRepository
+      .createQueryBuilder('reaction')
+      .select('reaction.blogId', 'blogId')
+      .addSelect('reaction.type', 'type')
+      .addSelect('COUNT(*)', 'count')
+      .where('reaction.blogId IN (:...blogIds)', { blogIds })
+      .groupBy('reaction.blogId')
+      .addGroupBy('reaction.type')
+      .getRawMany();
+
+    const counts = new Map<string, number>(
+      rows.map((row) => [`${row.blogId}:${row.type}`, parseInt(row.count, 10)]),
+    );
+
+    return blogIds.map((blogId) =>
+      Object.values(ReactionType).map((type) => ({
+        type,
+        count: counts.get(`${blogId}:${type}`) ?? 0,
+      })),
+    );
+  }
+
+  /**
+   * Batch loader for Blog.viewerReactions
+   */
+  async findTypesForUser(
+    blogIds: readonly string[],
+    userId: string,
+  ): Promise<ReactionType[][]> {
+    const reactions = await this.reactionRepository
+      .createQueryBuilder('reaction')
+      .select(['reaction.id', 'reaction.blogId', 'reaction.type'])
+      .where('reaction.blogId IN (:...blogIds)', { blogIds })
+      .andWhere('reaction.userId = :userId', { userId })
+      .getMany();
+
+    return blogIds.map((blogId) =>
+      reactions
+        .filter((reaction) => reaction.blogId === blogId)
+        .map((reaction) => reaction.type),
+    );
+  }
+
+  private async findReactableBlog(blogId: string, user: User): Promise<Blog> {
+    const blog = await this.blogService.findVisible(blogId, user);
+
+    if (!isBlogPublic(blog)) {
+      throw new BadRequestException(
+        'Reactions are only allowed on published blogs',
+      );
+    }
+
+    return blog;
+  }
+
+  private async publishCounts(blogId: string): Promise<void> {
+    const [reactionCounts] = await this.countForBlogs([blogId]);
+
+    await this.notificationService.publishLiveEvent(
+      reactionsUpdatedTrigger(blogId),
+      { blogReactionsUpdated: { blogId, reactionCounts } },
+    );
+  }
+}
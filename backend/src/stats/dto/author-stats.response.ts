@@ -0,0 +1,64 @@
+import { ObjectType, Field, Int, registerEnumType } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+
+export enum StatsRange {
+  LAST_7_DAYS = 'LAST_7_DAYS',
+  LAST_30_DAYS = 'LAST_30_DAYS',
+  LAST_90_DAYS = 'LAST_90_DAYS',
+}
+
+registerEnumType(StatsRange, { name: 'StatsRange' });
+
+@ObjectType()
+export class DailyViews {
+  /**
+   * UTC day, YYYY-MM-DD
+   */
+  @Field()
+  date: string;
+
+  @Field(() => Int)
+  views: number;
+
+  @Field(() => Int)
+  uniqueReaders: number;
+}
+
+@ObjectType()
+export class PostViews {
+  @Field(() => Blog)
+  blog: Blog;
+
+  @Field(() => Int)
+  views: number;
+
+  @Field(() => Int)
+  uniqueReaders: number;
+}
+
+/**
+ * Views of the author's posts over a range; one view per reader, post and day
+ */
+@ObjectType()
+export class AuthorStats {
+  @Field(() => StatsRange)
+  range: StatsRange;
+
+  @Field(() => Int)
+  totalViews: number;
+
+  /**
+   * Distinct readers over the whole range, not the sum of the daily figures
+   */
+  @Field(() => Int)
+  uniqueReaders: number;
+
+  /**
+   * One entry per day of the range, oldest first, including days without views
+   */
+  @Field(() => [DailyViews])
+  daily: DailyViews[];
+
+  @Field(() => [PostViews])
+  topPosts: PostViews[];
+}
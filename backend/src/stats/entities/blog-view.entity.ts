@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Blog } from '../../blog/entities/blog.entity';
+
+/**
+ * One reader opening one blog on one (UTC) day
+ * Readers are signed-in users or anonymous browser sessions, so reloads and
+ * repeat visits on the same day are counted once
+ */
+@Entity('blog_views')
+@Unique('UQ_blog_views_blog_reader_day', ['blogId', 'readerKey', 'viewedOn'])
+@Index(['blogId', 'viewedOn'])
+export class BlogView {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  blogId: string;
+
+  @ManyToOne(() => Blog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blogId' })
+  blog: Blog;
+
+  /**
+   * `user:<id>` for signed-in readers, `session:<id>` for anonymous ones
+   */
+  @Column()
+  readerKey: string;
+
+  // YYYY-MM-DD; TypeORM hands entities a string, but raw queries get a Date from the pg driver
+  @Column({ type: 'date' })
+  viewedOn: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BlogView } from './entities/blog-view.entity';
+import { StatsService } from './stats.service';
+import { StatsResolver } from './stats.resolver';
+import { Blog } from '../blog/entities/blog.entity';
+import { BlogModule } from '../blog/blog.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([BlogView, Blog]), BlogModule],
+  providers: [StatsService, StatsResolver],
+})
+export class StatsModule {}
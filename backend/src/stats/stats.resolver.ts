@@ -0,0 +1,42 @@
+import { Resolver, Query, Mutation, Args, ID, Context } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { StatsService } from './stats.service';
+import { AuthorStats, StatsRange } from './dto/author-stats.response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+
+@Resolver()
+export class StatsResolver {
+  constructor(private statsService: StatsService) {}
+
+  /**
+   * Called by clients when a post is opened; signed-out readers identify
+   * themselves with a random per-browser sessionId
+   */
+  @Mutation(() => Boolean)
+  @UseGuards(OptionalJwtAuthGuard)
+  async recordBlogView(
+    @Args('blogId', { type: () => ID }) blogId: string,
+    @Args('sessionId', { nullable: true }) sessionId: string,
+    @Context() context: { req: { user?: User } },
+  ): Promise<boolean> {
+    return this.statsService.recordView(blogId, context.req.user, sessionId);
+  }
+
+  /**
+   * Views of the current user's posts
+   */
+  @Query(() => AuthorStats)
+  @UseGuards(JwtAuthGuard)
+  async authorStats(
+    @Args('range', {
+      type: () => StatsRange,
+      defaultValue: StatsRange.LAST_30_DAYS,
+    })
+    range: StatsRange,
+    @Context() context: { req: { user: User } },
+  ): Promise<AuthorStats> {
+    return this.statsService.authorStats(context.req.user, range);
+  }
+}
@@ -0,0 +1,140 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+import { BlogView } from './entities/blog-view.entity';
+import {
+  AuthorStats,
+  PostViews,
+  StatsRange,
+} from './dto/author-stats.response';
+import { BlogService } from '../blog/blog.service';
+import { Blog, BlogStatus } from '../blog/entities/blog.entity';
+import { User } from '../auth/entities/user.entity';
+import { fillDays, toDay } from './utils/daily-views.util';
+
+const RANGE_DAYS: Record<StatsRange, number> = {
+  [StatsRange.LAST_7_DAYS]: 7,
+  [StatsRange.LAST_30_DAYS]: 30,
+  [StatsRange.LAST_90_DAYS]: 90,
+};
+
+const TOP_POSTS = 5;
+const MAX_SESSION_ID_LENGTH = 64;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class StatsService {
+  constructor(
+    @InjectRepository(BlogView)
+    private blogViewRepository: Repository<BlogView>,
+    @InjectRepository(Blog)
+    private blogRepository: Repository<Blog>,
+    private blogService: BlogService,
+  ) {}
+
+  /**
+   * Counts a view of a published post, at most once per reader and day
+   * Authors reading their own posts are not counted
+   * Returns whether this view was new
+   */
+  async recordView(
+    blogId: string,
+    viewer: User | null,
+    sessionId?: string,
+  ): Promise<boolean> {
+    const blog = await this.blogService.findVisible(blogId, viewer);
+    if (blog.status !== BlogStatus.PUBLISHED || blog.authorId === viewer?.id) {
+      return false;
+    }
+
+    let readerKey: string;
+    if (viewer) {
+      readerKey = `user:${viewer.id}`;
+    } else if (sessionId && sessionId.length <= MAX_SESSION_ID_LENGTH) {
+      readerKey = `session:${sessionId}`;
+    } else {
+      throw new BadRequestException(
+        `Anonymous views need a sessionId of at most ${MAX_SESSION_ID_LENGTH} characters`,
+      );
+    }
+
+    const result = await this.blogViewRepository
+      .createQueryBuilder()
+      .insert()
+      .into(BlogView)
+      .values({ blogId: blog.id, readerKey, viewedOn: toDay(new Date()) })
+      .orIgnore()
+      .execute();
+
+    return result.raw?.length > 0;
+  }
+
+  async authorStats(author: User, range: StatsRange): Promise<AuthorStats> {
+    const days = RANGE_DAYS[range];
+    const since = toDay(new Date(Date.now() - (days - 1) * DAY_MS));
+
+    const [totals, dailyRows, topRows] = await Promise.all([
+      this.viewsOf(author, since)
+        .select('COUNT(*)', 'views')
+        .addSelect('COUNT(DISTINCT view.readerKey)', 'readers')
+        .getRawOne(),
+      this.viewsOf(author, since)
+        .select(`to_char(view.viewedOn, 'YYYY-MM-DD')`, 'date')
+        .addSelect('COUNT(*)', 'views')
+        .addSelect('COUNT(DISTINCT view.readerKey)', 'readers')
+        .groupBy('view.viewedOn')
+        .getRawMany(),
+      this.viewsOf(author, since)
+        .select('view.blogId', 'blogId')
+        .addSelect('COUNT(*)', 'views')
+        .addSelect('COUNT(DISTINCT view.readerKey)', 'readers')
+        .groupBy('view.blogId')
+        .orderBy('views', 'DESC')
+        .addOrderBy('view.blogId', 'ASC')
+        .limit(TOP_POSTS)
+        .getRawMany(),
+    ]);
+
+    return {
+      range,
+      totalViews: Number(totals.views),
+      uniqueReaders: Number(totals.readers),
+      daily: fillDays(since, days, dailyRows),
+      topPosts: await this.loadTopPosts(topRows),
+    };
+  }
+
+  /**
+   * Views of the author's posts since the given day
+   * Trashed posts drop out through the join, which TypeORM limits to non-deleted blogs
+   */
+  private viewsOf(author: User, since: string): SelectQueryBuilder<BlogView> {
+    return this.blogViewRepository
+      .createQueryBuilder('view')
+      .innerJoin('view.blog', 'blog')
+      .where('blog.authorId = :authorId', { authorId: author.id })
+      .andWhere('view.viewedOn >= :since', { since });
+  }
+
+  private async loadTopPosts(
+    rows: { blogId: string; views: string; readers: string }[],
+  ): Promise<PostViews[]> {
+    if (!rows.length) {
+      return [];
+    }
+
+    const blogs = await this.blogRepository.find({
+      where: { id: In(rows.map((row) => row.blogId)) },
+      relations: ['author'],
+    });
+    const blogsById = new Map(blogs.map((blog) => [blog.id, blog]));
+
+    return rows
+      .filter((row) => blogsById.has(row.blogId))
+      .map((row) => ({
+        blog: blogsById.get(row.blogId),
+        views: Number(row.views),
+        uniqueReaders: Number(row.readers),
+      }));
+  }
+}
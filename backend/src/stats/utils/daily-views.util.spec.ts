@@ -0,0 +1,28 @@
+import { fillDays } from './daily-views.util';
+
+describe('daily views', () => {
+  it('fills days without views with zeros', () => {
+    const daily = fillDays('2024-05-01', 3, [
+      { date: '2024-05-02', views: '4', readers: '2' },
+    ]);
+
+    expect(daily).toEqual([
+      { date: '2024-05-01', views: 0, uniqueReaders: 0 },
+      { date: '2024-05-02', views: 4, uniqueReaders: 2 },
+      { date: '2024-05-03', views: 0, uniqueReaders: 0 },
+    ]);
+  });
+
+  it('matches Date values the pg driver returns for DATE columns', () => {
+    // pg parses DATE as midnight in the server's timezone
+    const daily = fillDays('2024-05-01', 2, [
+      { date: new Date(2024, 4, 2), views: '7', readers: '5' },
+    ]);
+
+    expect(daily[1]).toEqual({
+      date: '2024-05-02',
+      views: 7,
+      uniqueReaders: 5,
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { DailyViews } from '../dto/author-stats.response';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * YYYY-MM-DD of a DATE column value; raw queries get a Date at local midnight from the
+ * pg driver, so its local calendar day is the stored one
+ */
+export const dayKey = (value: string | Date): string => {
+  if (typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(
+    value.getDate(),
+  )}`;
+};
+
+/**
+ * One entry per day from `since`, with zeros for days without views
+ */
+export const fillDays = (
+  since: string,
+  days: number,
+  rows: { date: string | Date; views: string; readers: string }[],
+): DailyViews[] => {
+  const byDate = new Map(rows.map((row) => [dayKey(row.date), row]));
+  const start = new Date(`${since}T00:00:00.000Z`).getTime();
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = toDay(new Date(start + index * DAY_MS));
+    const row = byDate.get(date);
+    return {
+      date,
+      views: Number(row?.views ?? 0),
+      uniqueReaders: Number(row?.readers ?? 0),
+    };
+  });
+};
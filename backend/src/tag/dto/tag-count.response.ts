@@ -0,0 +1,14 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+import { Tag } from '../entities/tag.entity';
+
+@ObjectType()
+export class TagCount {
+  @Field(() => Tag)
+  tag: Tag;
+
+  /**
+   * Number of published posts carrying the tag
+   */
+  @Field(() => Int)
+  postCount: number;
+}
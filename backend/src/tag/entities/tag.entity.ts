@@ -0,0 +1,31 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToMany,
+} from 'typeorm';
+import { ObjectType, Field, ID } from '@nestjs/graphql';
+import { Blog } from '../../blog/entities/blog.entity';
+
+@ObjectType()
+@Entity('tags')
+export class Tag {
+  @Field(() => ID)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Normalized tag name (lowercase, hyphen-separated)
+   */
+  @Field()
+  @Column({ unique: true })
+  name: string;
+
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToMany(() => Blog, (blog) => blog.tags)
+  blogs: Blog[];
+}
@@ -0,0 +1,21 @@
+import { Resolver, Query, Args, Int } from '@nestjs/graphql';
+import { TagService } from './tag.service';
+import { Tag } from './entities/tag.entity';
+import { TagCount } from './dto/tag-count.response';
+
+@Resolver(() => Tag)
+export class TagResolver {
+  constructor(private tagService: TagService) {}
+
+  @Query(() => [Tag])
+  async tags(): Promise<Tag[]> {
+    return this.tagService.findAll();
+  }
+
+  @Query(() => [TagCount])
+  async tagCloud(
+    @Args('limit', { type: () => Int, nullable: true }) limit?: number,
+  ): Promise<TagCount[]> {
+    return this.tagService.tagCloud(limit);
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Tag } from './entities/tag.entity';
+import { TagCount } from './dto/tag-count.response';
+import { normalizeTagNames } from './utils/tag-name.util';
+import { applyBlogVisibility } from '../blog/utils/blog-visibility.util';
+
+const DEFAULT_TAG_CLOUD_SIZE = 50;
+
+@Injectable()
+export class TagService {
+  constructor(
+    @InjectRepository(Tag)
+    private tagRepository: Repository<Tag>,
+  ) {}
+
+  /**
+   * Resolves tag names to Tag rows, creating any that don't exist yet
+   * ON CONFLICT DO NOTHING keeps concurrent posts with the same new tag from colliding
+   */
+  async findOrCreateByNames(names: string[]): Promise<Tag[]> {
+    const normalized = normalizeTagNames(names);
+
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    await this.tagRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Tag)
+      .values(normalized.map((name) => ({ name })))
+      .orIgnore()
+      .execute();
+
+    const tags = await this.tagRepository.find({
+      where: { name: In(normalized) },
+    });
+
+    // Keep the order the author typed them in
+    return normalized
+      .map((name) => tags.find((tag) => tag.name === name))
+      .filter((tag): tag is Tag => !!tag);
+  }
+
+  async findAll(): Promise<Tag[]> {
+    return this.tagRepository.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * Most used tags with the number of publicly visible posts carrying each one
+   */
+  async tagCloud(limit = DEFAULT_TAG_CLOUD_SIZE): Promise<TagCount[]> {
+    const query = this.tagRepository
+      .createQueryBuilder('tag')
+      .innerJoin('tag.blogs', 'blog')
+      .select(['tag.id', 'tag.name', 'tag.createdAt'])
+      .addSelect('COUNT(blog.id)', 'postCount');
+    applyBlogVisibility(query, null);
+
+    const { entities, raw } = await query
+      .groupBy('tag.id')
+      .orderBy('"postCount"', 'DESC')
+      .addOrderBy('tag.name', 'ASC')
+      .limit(Math.max(1, Math.min(limit, 200)))
+      .getRawAndEntities();
+
+    const countsByTagId = new Map<string, number>(
+      raw.map((row) => [row.tag_id, parseInt(row.postCount, 10)]),
+    );
+
+    return entities.map((tag) => ({
+      tag,
+      postCount: countsByTagId.get(tag.id) ?? 0,
+    }));
+  }
+
+  /**
+   * Batch loader for Blog.tags: one query for all blogs in the current request
+   */
+  async loadForBlogs(blogIds: readonly string[]): Promise<Tag[][]> {
+    const rows = await this.tagRepository
+      .createQueryBuilder('tag')
+      .innerJoin('blog_tags', 'blogTag', 'blogTag.tagId = tag.id')
+      .select('tag.id', 'id')
+      .addSelect('tag.name', 'name')
+      .addSelect('tag.createdAt', 'createdAt')
+      .addSelect('blogTag.blogId', 'blogId')
+      .where('blogTag.blogId IN (:...blogIds)', { blogIds })
+      .orderBy('tag.name', 'ASC')
+      .getRawMany();
+
+    const tagsByBlog = new Map<string, Tag[]>();
+    for (const row of rows) {
+      const tag = this.tagRepository.create({
+        id: row.id,
+        name: row.name,
+        createdAt: row.createdAt,
+      });
+      tagsByBlog.set(row.blogId, [...(tagsByBlog.get(row.blogId) || []), tag]);
+    }
+
+    return blogIds.map((blogId) => tagsByBlog.get(blogId) || []);
+  }
+}
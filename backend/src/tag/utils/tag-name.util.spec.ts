@@ -0,0 +1,21 @@
+import { normalizeTagName, normalizeTagNames } from './tag-name.util';
+
+describe('normalizeTagName', () => {
+  it('lowercases and hyphenates whitespace', () => {
+    expect(normalizeTagName('  Web   Dev ')).toBe('web-dev');
+  });
+
+  it('strips leading hashes and stray hyphens', () => {
+    expect(normalizeTagName('#TypeScript-')).toBe('typescript');
+    expect(normalizeTagName('node__js')).toBe('node-js');
+  });
+});
+
+describe('normalizeTagNames', () => {
+  it('drops blanks and duplicates after normalizing', () => {
+    expect(normalizeTagNames(['Vue', 'vue', ' ', '#vue', 'GraphQL'])).toEqual([
+      'vue',
+      'graphql',
+    ]);
+  });
+});
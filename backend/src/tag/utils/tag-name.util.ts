@@ -0,0 +1,18 @@
+/**
+ * Normalizes a user-entered tag so "Web Dev", "web-dev" and " WEB  dev " are the same tag
+ */
+export const normalizeTagName = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Normalizes a list of tag names, dropping blanks and duplicates while keeping input order
+ */
+export const normalizeTagNames = (names: string[]): string[] => [
+  ...new Set(names.map(normalizeTagName).filter((name) => name.length > 0)),
+];
@@ -1,7 +1,7 @@
 import { ApolloClient, InMemoryCache, split, from } from '@apollo/client/core'
 import { GraphQLWsLink } from '@apollo/client/link/subscriptions'
 import { createClient } from 'graphql-ws'
-import { createHttpLink } from '@apollo/client/core'
+import { createUploadLink } from 'apollo-upload-client'
 import { setContext } from '@apollo/client/link/context'
 import { getMainDefinition } from '@apollo/client/utilities'
 
@@ -21,6 +21,9 @@ const getGraphQLEndpoint = () => {
   return 'http://localhost:3200/graphql'
 }
 
+// Base URL of the backend itself, for non-GraphQL routes such as the RSS feeds
+export const getBackendUrl = () => getGraphQLEndpoint().replace(/\/graphql\/?$/, '')
+
 // Get WebSocket endpoint from environment or derive from HTTP endpoint
 const getWebSocketEndpoint = () => {
   if (typeof window !== 'undefined' && import.meta.env.VITE_GRAPHQL_WS_URL) {
@@ -32,7 +35,8 @@ const getWebSocketEndpoint = () => {
 }
 
 // HTTP link with authentication
-const httpLink = createHttpLink({
+// Sends GraphQL multipart requests when variables contain a File, plain JSON otherwise
+const httpLink = createUploadLink({
   uri: getGraphQLEndpoint(),
 })
 
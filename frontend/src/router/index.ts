@@ -5,6 +5,13 @@ import SignInView from '@/views/SignInView.vue'
 import SignUpView from '@/views/SignUpView.vue'
 import CreateBlogView from '@/views/CreateBlogView.vue'
 import NotificationsView from '@/views/NotificationsView.vue'
+import SearchView from '@/views/SearchView.vue'
+import BlogPostView from '@/views/BlogPostView.vue'
+import TrashView from '@/views/TrashView.vue'
+import StatsView from '@/views/StatsView.vue'
+import ReadingListView from '@/views/ReadingListView.vue'
+import ImportExportView from '@/views/ImportExportView.vue'
+import ModerationView from '@/views/ModerationView.vue'
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -35,11 +42,53 @@ const router = createRouter({
       name: 'create-blog',
       component: CreateBlogView,
     },
+    {
+      path: '/blogs/:id/edit',
+      name: 'edit-blog',
+      component: CreateBlogView,
+    },
     {
       path: '/notifications',
       name: 'notifications',
       component: NotificationsView,
     },
+    {
+      path: '/search',
+      name: 'search',
+      component: SearchView,
+    },
+    {
+      path: '/trash',
+      name: 'trash',
+      component: TrashView,
+    },
+    {
+      path: '/reading-list',
+      name: 'reading-list',
+      component: ReadingListView,
+    },
+    {
+      path: '/import-export',
+      name: 'import-export',
+      component: ImportExportView,
+    },
+    {
+      path: '/stats',
+      name: 'stats',
+      component: StatsView,
+    },
+    {
+      path: '/moderation',
+      name: 'moderation',
+      component: ModerationView,
+      meta: { moderator: true },
+    },
+    {
+      // Permalink, e.g. /@alice/my-first-post - outdated slugs are replaced by the current one
+      path: '/@:username/:slug',
+      name: 'blog-post',
+      component: BlogPostView,
+    },
   ]
 })
 
@@ -78,6 +127,8 @@ router.beforeEach(async (to, from, next) => {
       name: 'sign-in',
       query: { redirect: to.fullPath }
     })
+  } else if (to.meta.moderator && !auth.isModerator) {
+    next({ name: 'dashboard' })
   } else {
     next()
   }
@@ -0,0 +1,77 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+
+// Sent as a GraphQL multipart request by the upload link
+const UPLOAD_ATTACHMENT_MUTATION = gql`
+  mutation UploadAttachment($file: Upload!, $blogId: ID) {
+    uploadAttachment(file: $file, blogId: $blogId) {
+      id
+      filename
+      mimeType
+      size
+      width
+      height
+      url
+      thumbnailUrl
+    }
+  }
+`
+
+export interface Attachment {
+  id: string
+  filename: string
+  mimeType: string
+  size: number
+  width: number | null
+  height: number | null
+  url: string
+  thumbnailUrl: string | null
+}
+
+// Mirrors the server's allowlist so obviously unsupported files fail fast
+export const ACCEPTED_FILE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+
+// Markdown that embeds an attachment: images show their thumbnail and link to the full file
+export function attachmentMarkdown(attachment: Attachment) {
+  const label = attachment.filename.replace(/[[\]]/g, '')
+  if (attachment.thumbnailUrl) {
+    return `[![${label}](${attachment.thumbnailUrl})](${attachment.url})`
+  }
+  return `[${label}](${attachment.url})`
+}
+
+export const useAttachmentStore = defineStore('attachments', () => {
+  const uploading = ref(0)
+  const error = ref<string | null>(null)
+
+  async function upload(file: File, blogId?: string): Promise<Attachment> {
+    uploading.value++
+    error.value = null
+    try {
+      if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
+        throw new Error(`${file.name}: only PNG, JPEG, GIF, WebP and PDF files can be attached`)
+      }
+      const { data, errors } = await apolloClient.mutate({
+        mutation: UPLOAD_ATTACHMENT_MUTATION,
+        variables: { file, blogId }
+      })
+      if (errors?.length) {
+        throw new Error(errors[0].message)
+      }
+      return data.uploadAttachment as Attachment
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to upload file'
+      throw e
+    } finally {
+      uploading.value--
+    }
+  }
+
+  return {
+    uploading,
+    error,
+    upload
+  }
+})
@@ -11,6 +11,7 @@ const REGISTER_MUTATION = gql`
         id
         email
         username
+        role
       }
     }
   }
@@ -24,6 +25,7 @@ const LOGIN_MUTATION = gql`
         id
         email
         username
+        role
       }
     }
   }
@@ -35,18 +37,25 @@ const ME_QUERY = gql`
       id
       email
       username
+      role
     }
   }
 `
 
+// Each role includes the ones before it (an admin is also a moderator)
+export type UserRole = 'USER' | 'MODERATOR' | 'ADMIN'
+
 export const useAuthStore = defineStore('auth', () => {
   const token = ref<string | null>(localStorage.getItem('token'))
-  const user = ref<{ id: string; email: string; username: string } | null>(null)
+  const user = ref<{ id: string; email: string; username: string; role: UserRole } | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
   const initializing = ref(false)
 
   const isAuthenticated = computed(() => !!token.value && !!user.value)
+  const isModerator = computed(
+    () => user.value?.role === 'MODERATOR' || user.value?.role === 'ADMIN'
+  )
 
   // Register token getter with Apollo Client for WebSocket
   setAuthTokenGetter(() => token.value)
@@ -159,6 +168,7 @@ export const useAuthStore = defineStore('auth', () => {
     error,
     initializing,
     isAuthenticated,
+    isModerator,
     register,
     login,
     logout,
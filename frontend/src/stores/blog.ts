@@ -2,63 +2,398 @@ import { defineStore } from 'pinia'
 import { ref } from 'vue'
 import { apolloClient } from '@/apollo/client'
 import gql from 'graphql-tag'
+import type { Tag } from '@/stores/tags'
 
-const BLOGS_QUERY = gql`
-  query Blogs {
-    blogs {
+// Fields shared by every blog query so list, detail and mutation results stay in sync
+const BLOG_FIELDS = gql`
+  fragment BlogFields on Blog {
+    id
+    title
+    slug
+    excerpt(length: 240)
+    readingTimeMinutes
+    version
+    status
+    publishAt
+    createdAt
+    hiddenAt
+    heldReason
+    author {
       id
-      title
+      username
+    }
+    tags {
+      id
+      name
+    }
+    reactionCounts {
+      type
+      count
+    }
+    viewerReactions
+    viewerHasBookmarked
+  }
+`
+
+const BLOGS_CONNECTION_QUERY = gql`
+  query BlogsConnection(
+    $first: Int
+    $after: String
+    $filter: BlogFilterInput
+    $orderBy: BlogOrderInput
+  ) {
+    blogsConnection(first: $first, after: $after, filter: $filter, orderBy: $orderBy) {
+      edges {
+        cursor
+        node {
+          ...BlogFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+// Full post for the detail view; lists only carry the excerpt
+const BLOG_QUERY = gql`
+  query Blog($id: ID!) {
+    blog(id: $id) {
+      ...BlogFields
       content
-      createdAt
-      author {
-        id
-        username
+      contentHtml
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+// Permalink lookup; redirectedFrom is set when the slug is an old one
+const BLOG_BY_SLUG_QUERY = gql`
+  query BlogBySlug($slug: String!) {
+    blogBySlug(slug: $slug) {
+      blog {
+        ...BlogFields
+        content
+        contentHtml
+        relatedPosts(limit: 5) {
+          id
+          title
+          slug
+          excerpt(length: 140)
+          readingTimeMinutes
+          author {
+            id
+            username
+          }
+        }
       }
+      redirectedFrom
     }
   }
+  ${BLOG_FIELDS}
 `
 
 const CREATE_BLOG_MUTATION = gql`
   mutation CreateBlog($input: CreateBlogInput!) {
     createBlog(input: $input) {
-      id
-      title
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const UPDATE_BLOG_MUTATION = gql`
+  mutation UpdateBlog($id: ID!, $input: UpdateBlogInput!) {
+    updateBlog(id: $id, input: $input) {
+      ...BlogFields
       content
-      createdAt
-      author {
+      contentHtml
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const PUBLISH_BLOG_MUTATION = gql`
+  mutation PublishBlog($id: ID!) {
+    publishBlog(id: $id) {
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const SCHEDULE_BLOG_MUTATION = gql`
+  mutation ScheduleBlog($id: ID!, $publishAt: DateTime!) {
+    scheduleBlog(id: $id, publishAt: $publishAt) {
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const DELETE_BLOG_MUTATION = gql`
+  mutation DeleteBlog($id: ID!) {
+    deleteBlog(id: $id)
+  }
+`
+
+const MY_TRASH_QUERY = gql`
+  query MyTrash {
+    myTrash {
+      ...BlogFields
+      deletedAt
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const RESTORE_BLOG_MUTATION = gql`
+  mutation RestoreBlog($id: ID!) {
+    restoreBlog(id: $id) {
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const REACT_MUTATION = gql`
+  mutation React($blogId: ID!, $type: ReactionType!) {
+    react(blogId: $blogId, type: $type) {
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const UNREACT_MUTATION = gql`
+  mutation Unreact($blogId: ID!, $type: ReactionType!) {
+    unreact(blogId: $blogId, type: $type) {
+      ...BlogFields
+    }
+  }
+  ${BLOG_FIELDS}
+`
+
+const BLOG_REACTIONS_UPDATED_SUBSCRIPTION = gql`
+  subscription BlogReactionsUpdated($blogId: ID!) {
+    blogReactionsUpdated(blogId: $blogId) {
+      blogId
+      reactionCounts {
+        type
+        count
+      }
+    }
+  }
+`
+
+// Only plain fields: batched ones (tags, reactions) would be cached for the whole connection
+const BLOG_CHANGED_SUBSCRIPTION = gql`
+  subscription BlogChanged {
+    blogChanged {
+      change
+      blogId
+      blog {
         id
-        username
+        title
+        slug
+        excerpt(length: 240)
+        readingTimeMinutes
+        version
+        content
+        contentHtml
       }
     }
   }
 `
 
+export type BlogStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED'
+
+export type ReactionType = 'LIKE' | 'LOVE' | 'LAUGH' | 'WOW' | 'SAD' | 'CELEBRATE'
+
+export interface ReactionCount {
+  type: ReactionType
+  count: number
+}
+
+// A recommendation shown under a post
+export type RelatedPost = Pick<Blog, 'id' | 'title' | 'slug' | 'excerpt' | 'readingTimeMinutes' | 'author'>
+
 export interface Blog {
   id: string
   title: string
-  content: string
+  slug: string
+  excerpt: string
+  readingTimeMinutes: number
+  // Bumped on every save; sent back as expectedVersion when editing
+  version: number
+  // Only loaded by fetchBlog (detail view)
+  content?: string
+  contentHtml?: string
+  // Only loaded for the trash
+  deletedAt?: string | null
+  status: BlogStatus
+  publishAt: string | null
   createdAt: string
+  // Set while a moderator has hidden the post; only its author still sees it
+  hiddenAt: string | null
+  // Set when content screening held the new post for a moderator to review
+  heldReason: string | null
   author: {
     id: string
     username: string
   }
+  tags: Tag[]
+  reactionCounts: ReactionCount[]
+  viewerReactions: ReactionType[]
+  viewerHasBookmarked: boolean
+  // Only loaded by fetchBlogBySlug (post page)
+  relatedPosts?: RelatedPost[]
+}
+
+export type BlogChangeType = 'UPDATED' | 'DELETED'
+
+// Pushed when a public post is edited, or trashed, purged or hidden by a moderator
+export interface BlogChange {
+  change: BlogChangeType
+  blogId: string
+  // null for DELETED
+  blog: Pick<
+    Blog,
+    'id' | 'title' | 'slug' | 'excerpt' | 'readingTimeMinutes' | 'version' | 'content' | 'contentHtml'
+  > | null
+}
+
+export interface BlogPermalink {
+  blog: Blog
+  redirectedFrom: string | null
+}
+
+export interface CreateBlogInput {
+  title: string
+  content: string
+  status?: BlogStatus
+  publishAt?: string
+  tags?: string[]
+  attachmentIds?: string[]
+}
+
+export interface UpdateBlogInput {
+  title?: string
+  content?: string
+  tags?: string[]
+  attachmentIds?: string[]
+  expectedVersion: number
+}
+
+// The stored post as returned with a version conflict
+export interface BlogServerCopy {
+  id: string
+  title: string
+  content: string
+  tags: string[]
+  version: number
+  updatedAt: string
+}
+
+// Thrown by updateBlog when the post was saved elsewhere after it was loaded
+export class BlogConflictError extends Error {
+  constructor(message: string, readonly serverCopy: BlogServerCopy) {
+    super(message)
+    this.name = 'BlogConflictError'
+  }
+}
+
+export interface BlogFilter {
+  authorId?: string
+  createdAfter?: string
+  createdBefore?: string
+  titleContains?: string
+  tag?: string
+}
+
+export interface BlogOrder {
+  field: 'CREATED_AT' | 'UPDATED_AT' | 'PUBLISHED_AT' | 'TITLE'
+  direction: 'ASC' | 'DESC'
+}
+
+const PAGE_SIZE = 10
+
+// Human-readable route for a post, e.g. /@alice/my-first-post
+export function blogPermalink(blog: Pick<Blog, 'slug' | 'author'>) {
+  return `/@${blog.author.username}/${blog.slug}`
+}
+
+// Combines two versions of a post line by line: shared leading and trailing lines are
+// kept once, the differing middle is wrapped in git-style conflict markers to resolve by hand
+export function mergeWithConflictMarkers(mine: string, theirs: string) {
+  if (mine === theirs) return mine
+  const a = mine.split('\n')
+  const b = theirs.split('\n')
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let end = 0
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++
+  }
+  return [
+    ...a.slice(0, start),
+    '<<<<<<< yours',
+    ...a.slice(start, a.length - end),
+    '=======',
+    ...b.slice(start, b.length - end),
+    '>>>>>>> saved version',
+    ...a.slice(a.length - end)
+  ].join('\n')
 }
 
 export const useBlogStore = defineStore('blog', () => {
   const blogs = ref<Blog[]>([])
   const loading = ref(false)
+  const loadingMore = ref(false)
   const error = ref<string | null>(null)
+  const endCursor = ref<string | null>(null)
+  const hasNextPage = ref(false)
+  const totalCount = ref(0)
+  const filter = ref<BlogFilter>({})
+  // The user's deleted posts, loaded by fetchTrash
+  const trash = ref<Blog[]>([])
+  // Newest public posts first; drafts fall back to their creation date
+  const orderBy = ref<BlogOrder | null>({ field: 'PUBLISHED_AT', direction: 'DESC' })
 
+  async function fetchPage(after: string | null) {
+    const { data } = await apolloClient.query({
+      query: BLOGS_CONNECTION_QUERY,
+      variables: {
+        first: PAGE_SIZE,
+        after,
+        filter: filter.value,
+        orderBy: orderBy.value
+      },
+      fetchPolicy: 'network-only'
+    })
+    const connection = data?.blogsConnection
+    endCursor.value = connection?.pageInfo.endCursor ?? null
+    hasNextPage.value = connection?.pageInfo.hasNextPage ?? false
+    totalCount.value = connection?.totalCount ?? 0
+    return connection ? connection.edges.map((edge: { node: Blog }) => edge.node) : []
+  }
+
+  // Load the first page (resets any previously loaded pages)
   async function fetchBlogs() {
     loading.value = true
     error.value = null
     try {
-      const { data } = await apolloClient.query({ 
-        query: BLOGS_QUERY, 
-        fetchPolicy: 'network-only' 
-      })
+      const page = await fetchPage(null)
       // Create a new array to avoid frozen object issues
-      blogs.value = data.blogs ? [...data.blogs] : []
+      blogs.value = [...page]
     } catch (e: any) {
       error.value = e.message ?? 'Failed to load blogs'
     } finally {
@@ -66,14 +401,247 @@ export const useBlogStore = defineStore('blog', () => {
     }
   }
 
-  async function createBlog(input: { title: string; content: string }) {
+  // Append the next page, used by infinite scroll
+  async function fetchMoreBlogs() {
+    if (!hasNextPage.value || loading.value || loadingMore.value) return
+
+    loadingMore.value = true
+    error.value = null
+    try {
+      const page = await fetchPage(endCursor.value)
+      const existingIds = new Set(blogs.value.map((b) => b.id))
+      blogs.value = [...blogs.value, ...page.filter((b: Blog) => !existingIds.has(b.id))]
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load more blogs'
+    } finally {
+      loadingMore.value = false
+    }
+  }
+
+  // Fetch a single blog with its rendered content, e.g. for the detail view or a deep link
+  async function fetchBlog(id: string): Promise<Blog | null> {
+    const loaded = blogs.value.find((b) => b.id === id)
+    if (loaded?.contentHtml !== undefined) return loaded
+
+    try {
+      const { data } = await apolloClient.query({
+        query: BLOG_QUERY,
+        variables: { id },
+        fetchPolicy: 'network-only'
+      })
+      return data?.blog ?? null
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load blog'
+      return null
+    }
+  }
+
+  // Resolve a permalink slug; old slugs still resolve and report redirectedFrom
+  async function fetchBlogBySlug(slug: string): Promise<BlogPermalink | null> {
+    try {
+      const { data } = await apolloClient.query({
+        query: BLOG_BY_SLUG_QUERY,
+        variables: { slug },
+        fetchPolicy: 'network-only'
+      })
+      return data?.blogBySlug ?? null
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load blog'
+      return null
+    }
+  }
+
+  async function setFilter(newFilter: BlogFilter, newOrderBy: BlogOrder | null = orderBy.value) {
+    filter.value = newFilter
+    orderBy.value = newOrderBy
+    await fetchBlogs()
+  }
+
+  // Replace a blog in the loaded list after a mutation changed it
+  function replaceBlog(updated: Blog) {
+    blogs.value = blogs.value.map((b) => (b.id === updated.id ? { ...b, ...updated } : b))
+  }
+
+  // Keeps the bookmark toggle in sync after the reading list changed
+  function setBookmarked(id: string, viewerHasBookmarked: boolean) {
+    blogs.value = blogs.value.map((b) => (b.id === id ? { ...b, viewerHasBookmarked } : b))
+  }
+
+  async function publishBlog(id: string) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: PUBLISH_BLOG_MUTATION,
+      variables: { id }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    if (data?.publishBlog) replaceBlog(data.publishBlog)
+    return data?.publishBlog as Blog
+  }
+
+  async function scheduleBlog(id: string, publishAt: string) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: SCHEDULE_BLOG_MUTATION,
+      variables: { id, publishAt }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    if (data?.scheduleBlog) replaceBlog(data.scheduleBlog)
+    return data?.scheduleBlog as Blog
+  }
+
+  // Saves an edit; a stale expectedVersion rejects with BlogConflictError
+  async function updateBlog(id: string, input: UpdateBlogInput) {
+    loading.value = true
+    error.value = null
+    try {
+      const { data, errors } = await apolloClient.mutate({
+        mutation: UPDATE_BLOG_MUTATION,
+        variables: { id, input }
+      })
+      if (errors?.length) {
+        const response = errors[0].extensions?.response as
+          | { code?: string; serverCopy?: BlogServerCopy }
+          | undefined
+        if (response?.code === 'BLOG_VERSION_CONFLICT' && response.serverCopy) {
+          throw new BlogConflictError(errors[0].message, response.serverCopy)
+        }
+        throw new Error(errors[0].message)
+      }
+      if (data?.updateBlog) replaceBlog(data.updateBlog)
+      return data?.updateBlog as Blog
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to update blog'
+      throw e
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Moves a blog to the trash and drops it from the loaded list
+  async function deleteBlog(id: string) {
+    error.value = null
+    const { errors } = await apolloClient.mutate({
+      mutation: DELETE_BLOG_MUTATION,
+      variables: { id }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    blogs.value = blogs.value.filter((b) => b.id !== id)
+    totalCount.value = Math.max(0, totalCount.value - 1)
+  }
+
+  async function fetchTrash() {
     loading.value = true
     error.value = null
     try {
-      const { data } = await apolloClient.mutate({
+      const { data } = await apolloClient.query({
+        query: MY_TRASH_QUERY,
+        fetchPolicy: 'network-only'
+      })
+      trash.value = [...(data?.myTrash ?? [])]
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load trash'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function restoreBlog(id: string) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: RESTORE_BLOG_MUTATION,
+      variables: { id }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    trash.value = trash.value.filter((b) => b.id !== id)
+    // Its place in the list depends on the current sort - reload on the next visit
+    blogs.value = []
+    return data?.restoreBlog as Blog
+  }
+
+  // Toggles the viewer's reaction and returns the updated blog
+  async function toggleReaction(blog: Blog, type: ReactionType) {
+    const mutation = blog.viewerReactions.includes(type) ? UNREACT_MUTATION : REACT_MUTATION
+    const { data, errors } = await apolloClient.mutate({
+      mutation,
+      variables: { blogId: blog.id, type }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    const updated = (data?.react ?? data?.unreact) as Blog | undefined
+    if (updated) replaceBlog(updated)
+    return updated
+  }
+
+  // Keeps a blog's reaction counts live; returns a function that stops listening
+  function watchReactions(blogId: string, onUpdate: (counts: ReactionCount[]) => void) {
+    const subscription = apolloClient
+      .subscribe({ query: BLOG_REACTIONS_UPDATED_SUBSCRIPTION, variables: { blogId } })
+      .subscribe({
+        next: (result: any) => {
+          const payload = result.data?.blogReactionsUpdated
+          if (!payload) return
+          blogs.value = blogs.value.map((b) =>
+            b.id === payload.blogId ? { ...b, reactionCounts: payload.reactionCounts } : b
+          )
+          onUpdate(payload.reactionCounts)
+        },
+        error: (e: any) => console.error('Reaction subscription error:', e)
+      })
+    return () => subscription.unsubscribe()
+  }
+
+  // Patches edited posts and drops removed ones as they happen; posts matching keep stay
+  // listed (authors still see their own hidden posts). Returns a function that stops listening
+  function watchBlogChanges(
+    onChange: (change: BlogChange) => void,
+    keep: (blog: Blog) => boolean = () => false
+  ) {
+    const subscription = apolloClient
+      .subscribe({ query: BLOG_CHANGED_SUBSCRIPTION })
+      .subscribe({
+        next: (result: any) => {
+          const payload = result.data?.blogChanged as BlogChange | undefined
+          if (!payload) return
+          if (payload.change === 'UPDATED' && payload.blog) {
+            const { blog } = payload
+            blogs.value = blogs.value.map((b) => (b.id === blog.id ? { ...b, ...blog } : b))
+          } else if (payload.change === 'DELETED') {
+            blogs.value = blogs.value.filter(
+              (b) => b.id !== payload.blogId || keep(b)
+            )
+          }
+          onChange(payload)
+        },
+        error: (e: any) => console.error('Blog change subscription error:', e)
+      })
+    return () => subscription.unsubscribe()
+  }
+
+  async function createBlog(input: CreateBlogInput) {
+    loading.value = true
+    error.value = null
+    try {
+      const { data, errors } = await apolloClient.mutate({
         mutation: CREATE_BLOG_MUTATION,
         variables: { input },
       })
+      if (errors?.length) {
+        throw new Error(errors[0].message)
+      }
       
       // Refetch blogs to get updated list (this ensures we have the latest data)
       // Don't manually add to array as Apollo cache might return frozen objects
@@ -91,9 +659,29 @@ export const useBlogStore = defineStore('blog', () => {
   return {
     blogs,
     loading,
+    loadingMore,
     error,
+    hasNextPage,
+    totalCount,
+    filter,
+    orderBy,
+    trash,
     fetchBlogs,
+    fetchMoreBlogs,
+    fetchBlog,
+    fetchBlogBySlug,
+    setFilter,
     createBlog,
+    updateBlog,
+    publishBlog,
+    scheduleBlog,
+    deleteBlog,
+    fetchTrash,
+    restoreBlog,
+    setBookmarked,
+    toggleReaction,
+    watchReactions,
+    watchBlogChanges,
   }
 })
 
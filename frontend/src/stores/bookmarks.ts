@@ -0,0 +1,173 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+import type { Tag } from '@/stores/tags'
+
+const BOOKMARK_FIELDS = gql`
+  fragment BookmarkFields on Bookmark {
+    id
+    note
+    createdAt
+    updatedSinceSaved
+    blog {
+      id
+      title
+      slug
+      excerpt(length: 160)
+      readingTimeMinutes
+      author {
+        id
+        username
+      }
+      tags {
+        id
+        name
+      }
+    }
+  }
+`
+
+const MY_BOOKMARKS_QUERY = gql`
+  query MyBookmarks($first: Int, $after: String) {
+    myBookmarks(first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          ...BookmarkFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+  ${BOOKMARK_FIELDS}
+`
+
+const BOOKMARK_MUTATION = gql`
+  mutation Bookmark($blogId: ID!, $note: String) {
+    bookmark(blogId: $blogId, note: $note) {
+      ...BookmarkFields
+    }
+  }
+  ${BOOKMARK_FIELDS}
+`
+
+const REMOVE_BOOKMARK_MUTATION = gql`
+  mutation RemoveBookmark($blogId: ID!) {
+    removeBookmark(blogId: $blogId)
+  }
+`
+
+export interface Bookmark {
+  id: string
+  note: string | null
+  createdAt: string
+  // The post was edited after it was saved
+  updatedSinceSaved: boolean
+  blog: {
+    id: string
+    title: string
+    slug: string
+    excerpt: string
+    readingTimeMinutes: number
+    author: { id: string; username: string }
+    tags: Tag[]
+  }
+}
+
+const PAGE_SIZE = 20
+
+export const useBookmarkStore = defineStore('bookmarks', () => {
+  const bookmarks = ref<Bookmark[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  const endCursor = ref<string | null>(null)
+  const hasNextPage = ref(false)
+  const totalCount = ref(0)
+
+  async function fetchPage(after: string | null) {
+    const { data } = await apolloClient.query({
+      query: MY_BOOKMARKS_QUERY,
+      variables: { first: PAGE_SIZE, after },
+      fetchPolicy: 'network-only'
+    })
+    const connection = data?.myBookmarks
+    endCursor.value = connection?.pageInfo.endCursor ?? null
+    hasNextPage.value = connection?.pageInfo.hasNextPage ?? false
+    totalCount.value = connection?.totalCount ?? 0
+    return (connection?.edges ?? []).map((edge: { node: Bookmark }) => edge.node)
+  }
+
+  async function fetchBookmarks() {
+    loading.value = true
+    error.value = null
+    try {
+      bookmarks.value = await fetchPage(null)
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load reading list'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function fetchMoreBookmarks() {
+    if (!hasNextPage.value || loading.value) return
+    loading.value = true
+    try {
+      bookmarks.value = [...bookmarks.value, ...(await fetchPage(endCursor.value))]
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load reading list'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Saves a post (or updates its note); saving again clears updatedSinceSaved
+  async function bookmark(blogId: string, note: string | null = null) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: BOOKMARK_MUTATION,
+      variables: { blogId, note }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    const saved = data?.bookmark as Bookmark
+    if (saved) {
+      bookmarks.value = bookmarks.value.map((b) => (b.id === saved.id ? saved : b))
+    }
+    return saved
+  }
+
+  async function removeBookmark(blogId: string) {
+    error.value = null
+    const { errors } = await apolloClient.mutate({
+      mutation: REMOVE_BOOKMARK_MUTATION,
+      variables: { blogId }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    const before = bookmarks.value.length
+    bookmarks.value = bookmarks.value.filter((b) => b.blog.id !== blogId)
+    totalCount.value = Math.max(0, totalCount.value - (before - bookmarks.value.length))
+  }
+
+  return {
+    bookmarks,
+    loading,
+    error,
+    hasNextPage,
+    totalCount,
+    fetchBookmarks,
+    fetchMoreBookmarks,
+    bookmark,
+    removeBookmark
+  }
+})
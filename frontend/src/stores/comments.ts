@@ -0,0 +1,288 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+
+const COMMENT_FIELDS = gql`
+  fragment CommentFields on Comment {
+    id
+    content
+    blogId
+    parentId
+    createdAt
+    editedAt
+    deletedAt
+    replyCount
+    author {
+      id
+      username
+    }
+  }
+`
+
+const COMMENTS_QUERY = gql`
+  query Comments($blogId: ID!, $parentId: ID, $first: Int, $after: String) {
+    comments(blogId: $blogId, parentId: $parentId, first: $first, after: $after) {
+      edges {
+        node {
+          ...CommentFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+  ${COMMENT_FIELDS}
+`
+
+const ADD_COMMENT_MUTATION = gql`
+  mutation AddComment($input: AddCommentInput!) {
+    addComment(input: $input) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`
+
+const EDIT_COMMENT_MUTATION = gql`
+  mutation EditComment($id: ID!, $input: EditCommentInput!) {
+    editComment(id: $id, input: $input) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`
+
+const DELETE_COMMENT_MUTATION = gql`
+  mutation DeleteComment($id: ID!) {
+    deleteComment(id: $id)
+  }
+`
+
+const COMMENT_ADDED_SUBSCRIPTION = gql`
+  subscription CommentAdded($blogId: ID!) {
+    commentAdded(blogId: $blogId) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`
+
+export interface Comment {
+  id: string
+  content: string
+  blogId: string
+  parentId: string | null
+  createdAt: string
+  editedAt: string | null
+  deletedAt: string | null
+  replyCount: number
+  author: {
+    id: string
+    username: string
+  }
+}
+
+interface Thread {
+  comments: Comment[]
+  endCursor: string | null
+  hasNextPage: boolean
+}
+
+const PAGE_SIZE = 20
+
+// Key for the top-level thread; replies are keyed by their parent comment id
+const ROOT = 'root'
+
+// Comments of the blog currently open in the detail view
+export const useCommentStore = defineStore('comments', () => {
+  const blogId = ref<string | null>(null)
+  const threads = ref<Record<string, Thread>>({})
+  const totalCount = ref(0)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  let subscription: { unsubscribe: () => void } | null = null
+
+  function threadFor(parentId: string | null) {
+    return threads.value[parentId ?? ROOT]
+  }
+
+  async function fetchThread(parentId: string | null, after: string | null = null) {
+    const { data, errors } = await apolloClient.query({
+      query: COMMENTS_QUERY,
+      variables: { blogId: blogId.value, parentId, first: PAGE_SIZE, after },
+      fetchPolicy: 'network-only'
+    })
+    if (errors?.length) {
+      throw new Error(errors[0].message)
+    }
+    const connection = data?.comments
+    const page: Comment[] = connection
+      ? connection.edges.map((edge: { node: Comment }) => edge.node)
+      : []
+    const existing = after ? threadFor(parentId)?.comments ?? [] : []
+    const existingIds = new Set(existing.map((c) => c.id))
+    threads.value = {
+      ...threads.value,
+      [parentId ?? ROOT]: {
+        comments: [...existing, ...page.filter((c) => !existingIds.has(c.id))],
+        endCursor: connection?.pageInfo.endCursor ?? null,
+        hasNextPage: connection?.pageInfo.hasNextPage ?? false
+      }
+    }
+    if (!parentId) totalCount.value = connection?.totalCount ?? 0
+  }
+
+  // Load the first page of top-level comments and follow new ones live
+  async function open(id: string) {
+    close()
+    blogId.value = id
+    loading.value = true
+    error.value = null
+    try {
+      await fetchThread(null)
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load comments'
+    } finally {
+      loading.value = false
+    }
+    subscription = apolloClient
+      .subscribe({ query: COMMENT_ADDED_SUBSCRIPTION, variables: { blogId: id } })
+      .subscribe({
+        next: (result: any) => {
+          if (result.data?.commentAdded) insertComment(result.data.commentAdded)
+        },
+        error: (e: any) => console.error('Comment subscription error:', e)
+      })
+  }
+
+  function close() {
+    subscription?.unsubscribe()
+    subscription = null
+    blogId.value = null
+    threads.value = {}
+    totalCount.value = 0
+  }
+
+  async function loadMore(parentId: string | null = null) {
+    const thread = threadFor(parentId)
+    if (thread && !thread.hasNextPage) return
+    try {
+      await fetchThread(parentId, thread?.endCursor ?? null)
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load comments'
+    }
+  }
+
+  // Adds a comment from a mutation result or the live subscription (whichever arrives first)
+  function insertComment(comment: Comment) {
+    if (comment.blogId !== blogId.value) return
+    const thread = threadFor(comment.parentId)
+    if (thread?.comments.some((c) => c.id === comment.id)) return
+
+    if (thread) {
+      threads.value = {
+        ...threads.value,
+        [comment.parentId ?? ROOT]: { ...thread, comments: [...thread.comments, comment] }
+      }
+    }
+    if (comment.parentId) {
+      updateComment(comment.parentId, (parent) => ({
+        ...parent,
+        replyCount: parent.replyCount + 1
+      }))
+    } else {
+      totalCount.value += 1
+    }
+  }
+
+  function updateComment(id: string, update: (comment: Comment) => Comment | null) {
+    const next: Record<string, Thread> = {}
+    for (const key of Object.keys(threads.value)) {
+      const thread = threads.value[key]
+      next[key] = {
+        ...thread,
+        comments: thread.comments
+          .map((c) => (c.id === id ? update(c) : c))
+          .filter((c): c is Comment => c !== null)
+      }
+    }
+    threads.value = next
+  }
+
+  async function addComment(content: string, parentId: string | null = null) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: ADD_COMMENT_MUTATION,
+      variables: { input: { blogId: blogId.value, content, ...(parentId && { parentId }) } }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    if (data?.addComment) insertComment(data.addComment)
+    return data?.addComment as Comment
+  }
+
+  async function editComment(id: string, content: string) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: EDIT_COMMENT_MUTATION,
+      variables: { id, input: { content } }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    if (data?.editComment) updateComment(id, () => ({ ...data.editComment }))
+    return data?.editComment as Comment
+  }
+
+  async function deleteComment(comment: Comment) {
+    error.value = null
+    const { errors } = await apolloClient.mutate({
+      mutation: DELETE_COMMENT_MUTATION,
+      variables: { id: comment.id }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    // Comments with replies stay in the thread as a "deleted" placeholder
+    if (comment.replyCount > 0) {
+      updateComment(comment.id, (c) => ({
+        ...c,
+        content: '',
+        deletedAt: new Date().toISOString()
+      }))
+      return
+    }
+    updateComment(comment.id, () => null)
+    if (comment.parentId) {
+      updateComment(comment.parentId, (parent) => ({
+        ...parent,
+        replyCount: Math.max(0, parent.replyCount - 1)
+      }))
+    } else {
+      totalCount.value = Math.max(0, totalCount.value - 1)
+    }
+  }
+
+  return {
+    blogId,
+    threads,
+    totalCount,
+    loading,
+    error,
+    threadFor,
+    open,
+    close,
+    loadMore,
+    addComment,
+    editComment,
+    deleteComment
+  }
+})
@@ -0,0 +1,258 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+
+const MODERATED_BLOG_FIELDS = gql`
+  fragment ModeratedBlogFields on Blog {
+    id
+    title
+    slug
+    excerpt(length: 240)
+    createdAt
+    hiddenAt
+    heldReason
+    author {
+      id
+      username
+    }
+  }
+`
+
+const MODERATION_QUEUE_QUERY = gql`
+  query ModerationQueue {
+    moderationQueue {
+      reportCount
+      lastReportedAt
+      blog {
+        ...ModeratedBlogFields
+      }
+      reports {
+        id
+        reason
+        createdAt
+        reporter {
+          id
+          username
+        }
+      }
+    }
+    hiddenBlogs {
+      ...ModeratedBlogFields
+    }
+    moderationActions(first: 20) {
+      id
+      action
+      blogTitle
+      note
+      createdAt
+      moderator {
+        id
+        username
+      }
+    }
+  }
+  ${MODERATED_BLOG_FIELDS}
+`
+
+const SCREENING_RULES_FIELDS = gql`
+  fragment ScreeningRulesFields on ScreeningRules {
+    bannedWords
+    bannedWordDecision
+    maxLinks
+    linkLimitDecision
+    duplicateWindowHours
+    duplicateDecision
+    maxPostsPerHour
+    updatedAt
+    updatedBy {
+      id
+      username
+    }
+  }
+`
+
+const SCREENING_RULES_QUERY = gql`
+  query ScreeningRules {
+    screeningRules {
+      ...ScreeningRulesFields
+    }
+  }
+  ${SCREENING_RULES_FIELDS}
+`
+
+const UPDATE_SCREENING_RULES_MUTATION = gql`
+  mutation UpdateScreeningRules($input: UpdateScreeningRulesInput!) {
+    updateScreeningRules(input: $input) {
+      ...ScreeningRulesFields
+    }
+  }
+  ${SCREENING_RULES_FIELDS}
+`
+
+const REPORT_BLOG_MUTATION = gql`
+  mutation ReportBlog($blogId: ID!, $reason: String!) {
+    reportBlog(blogId: $blogId, reason: $reason) {
+      id
+    }
+  }
+`
+
+const MODERATE_BLOG_MUTATION = gql`
+  mutation ModerateBlog($blogId: ID!, $action: ModerationActionType!, $note: String) {
+    moderateBlog(blogId: $blogId, action: $action, note: $note) {
+      id
+    }
+  }
+`
+
+export type ModerationActionType = 'HIDE' | 'RESTORE' | 'DELETE' | 'DISMISS'
+
+// What a screening step does with a matching post (ALLOW is only a result, never a setting)
+export type ScreeningDecision = 'HOLD' | 'REJECT'
+
+export interface ModeratedBlog {
+  id: string
+  title: string
+  slug: string
+  excerpt: string
+  createdAt: string
+  hiddenAt: string | null
+  // Set when screening held the post on creation rather than a moderator hiding it
+  heldReason: string | null
+  author: { id: string; username: string }
+}
+
+export interface Report {
+  id: string
+  reason: string
+  createdAt: string
+  reporter: { id: string; username: string }
+}
+
+export interface ModerationQueueItem {
+  reportCount: number
+  lastReportedAt: string
+  blog: ModeratedBlog
+  reports: Report[]
+}
+
+export interface ModerationAction {
+  id: string
+  action: ModerationActionType
+  // Title at the time of the action; the post itself may be gone
+  blogTitle: string
+  note: string | null
+  createdAt: string
+  moderator: { id: string; username: string }
+}
+
+// Null limits switch that check off
+export interface ScreeningRulesInput {
+  bannedWords: string[]
+  bannedWordDecision: ScreeningDecision
+  maxLinks: number | null
+  linkLimitDecision: ScreeningDecision
+  duplicateWindowHours: number | null
+  duplicateDecision: ScreeningDecision
+  maxPostsPerHour: number | null
+}
+
+export interface ScreeningRules extends ScreeningRulesInput {
+  updatedAt: string
+  updatedBy: { id: string; username: string } | null
+}
+
+export const useModerationStore = defineStore('moderation', () => {
+  const queue = ref<ModerationQueueItem[]>([])
+  const hiddenBlogs = ref<ModeratedBlog[]>([])
+  const actions = ref<ModerationAction[]>([])
+  const screeningRules = ref<ScreeningRules | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Queue, hidden posts and the recent audit log in one round trip
+  async function fetchModeration() {
+    loading.value = true
+    error.value = null
+    try {
+      const { data } = await apolloClient.query({
+        query: MODERATION_QUEUE_QUERY,
+        fetchPolicy: 'network-only'
+      })
+      queue.value = data?.moderationQueue ?? []
+      hiddenBlogs.value = data?.hiddenBlogs ?? []
+      actions.value = data?.moderationActions ?? []
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load the moderation queue'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function fetchScreeningRules() {
+    try {
+      const { data } = await apolloClient.query({
+        query: SCREENING_RULES_QUERY,
+        fetchPolicy: 'network-only'
+      })
+      screeningRules.value = data?.screeningRules ?? null
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load screening rules'
+    }
+  }
+
+  async function updateScreeningRules(input: ScreeningRulesInput) {
+    error.value = null
+    const { data, errors } = await apolloClient.mutate({
+      mutation: UPDATE_SCREENING_RULES_MUTATION,
+      variables: { input }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    screeningRules.value = data?.updateScreeningRules ?? screeningRules.value
+  }
+
+  async function reportBlog(blogId: string, reason: string) {
+    const { errors } = await apolloClient.mutate({
+      mutation: REPORT_BLOG_MUTATION,
+      variables: { blogId, reason }
+    })
+    if (errors?.length) {
+      throw new Error(errors[0].message)
+    }
+  }
+
+  async function moderateBlog(
+    blogId: string,
+    action: ModerationActionType,
+    note: string | null = null
+  ) {
+    error.value = null
+    const { errors } = await apolloClient.mutate({
+      mutation: MODERATE_BLOG_MUTATION,
+      variables: { blogId, action, note }
+    })
+    if (errors?.length) {
+      error.value = errors[0].message
+      throw new Error(errors[0].message)
+    }
+    await fetchModeration()
+  }
+
+  return {
+    queue,
+    hiddenBlogs,
+    actions,
+    screeningRules,
+    loading,
+    error,
+    fetchModeration,
+    fetchScreeningRules,
+    updateScreeningRules,
+    reportBlog,
+    moderateBlog
+  }
+})
@@ -7,11 +7,20 @@ const NEW_NOTIFICATION_MARKER_SUBSCRIPTION = gql`
   subscription NewNotificationMarker {
     newNotificationMarker {
       markerVersion
+      type
       createdAt
+      comment {
+        id
+        content
+        author {
+          id
+          username
+        }
+      }
       blog {
         id
         title
-        content
+        excerpt(length: 140)
         createdAt
         author {
           id
@@ -22,16 +31,41 @@ const NEW_NOTIFICATION_MARKER_SUBSCRIPTION = gql`
   }
 `
 
+// Edits and removals of public posts, so notifications never show stale titles or dead links
+const BLOG_CHANGED_SUBSCRIPTION = gql`
+  subscription NotificationBlogChanged {
+    blogChanged {
+      change
+      blogId
+      blog {
+        id
+        title
+        excerpt(length: 140)
+      }
+    }
+  }
+`
+
 // Query to fetch unread markers
 const UNREAD_MARKERS_QUERY = gql`
   query UnreadMarkers {
     unreadMarkers {
       markerVersion
+      type
       createdAt
+      readAt
+      comment {
+        id
+        content
+        author {
+          id
+          username
+        }
+      }
       blog {
         id
         title
-        content
+        excerpt(length: 140)
         createdAt
         author {
           id
@@ -47,11 +81,21 @@ const ALL_MARKERS_QUERY = gql`
   query AllMarkers {
     allMarkers {
       markerVersion
+      type
       createdAt
+      readAt
+      comment {
+        id
+        content
+        author {
+          id
+          username
+        }
+      }
       blog {
         id
         title
-        content
+        excerpt(length: 140)
         createdAt
         author {
           id
@@ -90,13 +134,99 @@ const UPDATE_LAST_SEEN_MARKER_VERSION_MUTATION = gql`
   }
 `
 
+// Per-notification state; the unread count is kept in step locally
+const MARK_NOTIFICATION_READ_MUTATION = gql`
+  mutation MarkNotificationRead($markerVersion: Int!) {
+    markNotificationRead(markerVersion: $markerVersion) {
+      markerVersion
+      readAt
+    }
+  }
+`
+
+const MARK_NOTIFICATION_UNREAD_MUTATION = gql`
+  mutation MarkNotificationUnread($markerVersion: Int!) {
+    markNotificationUnread(markerVersion: $markerVersion) {
+      markerVersion
+      readAt
+    }
+  }
+`
+
+const ARCHIVE_NOTIFICATION_MUTATION = gql`
+  mutation ArchiveNotification($markerVersion: Int!) {
+    archiveNotification(markerVersion: $markerVersion) {
+      markerVersion
+      archivedAt
+    }
+  }
+`
+
+const MARK_ALL_READ_MUTATION = gql`
+  mutation MarkAllRead {
+    markAllRead {
+      count
+      lastSeenMarkerVersion
+    }
+  }
+`
+
+const NOTIFICATION_PREFERENCES_FIELDS = gql`
+  fragment NotificationPreferencesFields on NotificationPreferences {
+    newPosts
+    comments
+    mentions
+    follows
+    mutedAuthorIds
+    mutedAuthors {
+      id
+      username
+    }
+    quietHoursStart
+    quietHoursEnd
+    timezone
+  }
+`
+
+const NOTIFICATION_PREFERENCES_QUERY = gql`
+  query MyNotificationPreferences {
+    myNotificationPreferences {
+      ...NotificationPreferencesFields
+    }
+  }
+  ${NOTIFICATION_PREFERENCES_FIELDS}
+`
+
+const UPDATE_NOTIFICATION_PREFERENCES_MUTATION = gql`
+  mutation UpdateNotificationPreferences($input: UpdateNotificationPreferencesInput!) {
+    updateNotificationPreferences(input: $input) {
+      ...NotificationPreferencesFields
+    }
+  }
+  ${NOTIFICATION_PREFERENCES_FIELDS}
+`
+
+export type NotificationType = 'NEW_BLOG' | 'NEW_COMMENT'
+
 export interface NotificationMarker {
   markerVersion: number
+  type: NotificationType
   createdAt: string
+  // Null while unread
+  readAt: string | null
+  // Only set for NEW_COMMENT markers (null if the comment was removed)
+  comment?: {
+    id: string
+    content: string
+    author: {
+      id: string
+      username: string
+    }
+  } | null
   blog: {
     id: string
     title: string
-    content: string
+    excerpt: string
     createdAt: string
     author: {
       id: string
@@ -105,17 +235,35 @@ export interface NotificationMarker {
   }
 }
 
+// Quiet hours are "HH:MM" in the timezone and only hold back live pushes, not the inbox
+export interface NotificationPreferencesInput {
+  newPosts?: boolean
+  comments?: boolean
+  mentions?: boolean
+  follows?: boolean
+  mutedAuthorIds?: string[]
+  quietHoursStart?: string | null
+  quietHoursEnd?: string | null
+  timezone?: string
+}
+
+export interface NotificationPreferences extends Required<NotificationPreferencesInput> {
+  mutedAuthors: { id: string; username: string }[]
+}
+
 export const useNotificationStore = defineStore('notifications', () => {
   const markers = ref<NotificationMarker[]>([])
   const loading = ref(false)
   const lastSeenMarkerVersion = ref<number>(0)
   const unreadNotificationCount = ref<number>(0)
   const subscription = ref<any>(null)
+  const preferences = ref<NotificationPreferences | null>(null)
+  let blogChangeSubscription: { unsubscribe: () => void } | null = null
   let wasConnected = false
 
   // Computed: count of unread markers (from local state)
   const unreadCount = computed(() => {
-    return markers.value.filter(m => m.markerVersion > lastSeenMarkerVersion.value).length
+    return markers.value.filter(m => !m.readAt).length
   })
 
   // Computed: has new notifications (markers after last seen version)
@@ -135,11 +283,14 @@ export const useNotificationStore = defineStore('notifications', () => {
       if (data?.allMarkers) {
         const fetchedMarkers: NotificationMarker[] = data.allMarkers.map((m: any) => ({
           markerVersion: m.markerVersion,
+          type: m.type,
           createdAt: m.createdAt,
+          readAt: m.readAt,
+          comment: m.comment,
           blog: {
             id: m.blog.id,
             title: m.blog.title,
-            content: m.blog.content,
+            excerpt: m.blog.excerpt,
             createdAt: m.blog.createdAt,
             author: {
               id: m.blog.author.id,
@@ -154,9 +305,7 @@ export const useNotificationStore = defineStore('notifications', () => {
         )
         
         // Update unread count based on fetched markers
-        const unreadMarkersCount = markers.value.filter(
-          m => m.markerVersion > lastSeenMarkerVersion.value
-        ).length
+        const unreadMarkersCount = markers.value.filter(m => !m.readAt).length
         unreadNotificationCount.value = unreadMarkersCount
       }
     } catch (error: any) {
@@ -178,11 +327,14 @@ export const useNotificationStore = defineStore('notifications', () => {
       if (data?.unreadMarkers) {
         const fetchedMarkers: NotificationMarker[] = data.unreadMarkers.map((m: any) => ({
           markerVersion: m.markerVersion,
+          type: m.type,
           createdAt: m.createdAt,
+          readAt: m.readAt,
+          comment: m.comment,
           blog: {
             id: m.blog.id,
             title: m.blog.title,
-            content: m.blog.content,
+            excerpt: m.blog.excerpt,
             createdAt: m.blog.createdAt,
             author: {
               id: m.blog.author.id,
@@ -206,10 +358,7 @@ export const useNotificationStore = defineStore('notifications', () => {
         }
         
         // Update unread count based on fetched markers
-        // Count markers where markerVersion > lastSeenMarkerVersion
-        const unreadMarkersCount = markers.value.filter(
-          m => m.markerVersion > lastSeenMarkerVersion.value
-        ).length
+        const unreadMarkersCount = markers.value.filter(m => !m.readAt).length
         unreadNotificationCount.value = unreadMarkersCount
       }
     } catch (error: any) {
@@ -310,7 +459,8 @@ export const useNotificationStore = defineStore('notifications', () => {
           }
           
           if (result.data?.newNotificationMarker) {
-            const newMarker = result.data.newNotificationMarker
+            // Live markers always arrive unread
+            const newMarker = { ...result.data.newNotificationMarker, readAt: null }
             
             // Avoid duplicates
             const exists = markers.value.some(
@@ -323,11 +473,7 @@ export const useNotificationStore = defineStore('notifications', () => {
                 (a, b) => b.markerVersion - a.markerVersion
               )
               markers.value = newMarkers
-              
-              // Immediately update unread count if marker is unread
-              if (newMarker.markerVersion > lastSeenMarkerVersion.value) {
-                unreadNotificationCount.value += 1
-              }
+              unreadNotificationCount.value += 1
             }
           }
         },
@@ -355,6 +501,8 @@ export const useNotificationStore = defineStore('notifications', () => {
       })
       
       wasConnected = true
+
+      startBlogChangeSubscription()
       
       // Verify subscription is actually set
       if (!subscription.value) {
@@ -369,6 +517,36 @@ export const useNotificationStore = defineStore('notifications', () => {
     }
   }
 
+  // Patches or retracts the notifications of a post that was edited or taken down
+  function handleBlogChanged(payload: any) {
+    if (payload.change === 'UPDATED' && payload.blog) {
+      const { id, title, excerpt } = payload.blog
+      markers.value = markers.value.map((m) =>
+        m.blog.id === id ? { ...m, blog: { ...m.blog, title, excerpt } } : m
+      )
+    } else if (payload.change === 'DELETED') {
+      const remaining = markers.value.filter((m) => m.blog.id !== payload.blogId)
+      if (remaining.length !== markers.value.length) {
+        markers.value = remaining
+        fetchUnreadNotificationCount()
+      }
+    }
+  }
+
+  function startBlogChangeSubscription() {
+    blogChangeSubscription?.unsubscribe()
+    blogChangeSubscription = apolloClient
+      .subscribe({ query: BLOG_CHANGED_SUBSCRIPTION })
+      .subscribe({
+        next: (result: any) => {
+          if (result.data?.blogChanged) {
+            handleBlogChanged(result.data.blogChanged)
+          }
+        },
+        error: (error: any) => console.error('Blog change subscription error:', error),
+      })
+  }
+
   /**
    * Legacy subscribe function - calls startSubscription
    * Kept for backward compatibility
@@ -382,6 +560,8 @@ export const useNotificationStore = defineStore('notifications', () => {
       subscription.value.unsubscribe()
       subscription.value = null
     }
+    blogChangeSubscription?.unsubscribe()
+    blogChangeSubscription = null
     wasConnected = false
   }
 
@@ -396,6 +576,7 @@ export const useNotificationStore = defineStore('notifications', () => {
         lastSeenMarkerVersion.value = data.updateLastSeenMarkerVersion.lastSeenMarkerVersion
         // Update unread count from server response
         unreadNotificationCount.value = data.updateLastSeenMarkerVersion.count
+        markReadLocally((m) => m.markerVersion <= markerVersion)
       }
     } catch (error: any) {
       console.error('Failed to update last seen marker version:', error)
@@ -404,14 +585,86 @@ export const useNotificationStore = defineStore('notifications', () => {
   }
 
   async function markAllAsSeen() {
-    if (markers.value.length === 0) return
-    
-    // Get the highest marker version
-    const highestVersion = Math.max(...markers.value.map(m => m.markerVersion))
-    await markAsSeen(highestVersion)
+    const { data, errors } = await apolloClient.mutate({ mutation: MARK_ALL_READ_MUTATION })
+    if (errors?.length) throw new Error(errors[0].message)
+
+    lastSeenMarkerVersion.value = data.markAllRead.lastSeenMarkerVersion
+    unreadNotificationCount.value = data.markAllRead.count
+    markReadLocally(() => true)
+  }
+
+  function markReadLocally(matches: (marker: NotificationMarker) => boolean) {
+    const now = new Date().toISOString()
+    markers.value = markers.value.map((m) =>
+      !m.readAt && matches(m) ? { ...m, readAt: now } : m
+    )
+  }
+
+  async function setRead(marker: NotificationMarker, read: boolean) {
+    const { data, errors } = await apolloClient.mutate({
+      mutation: read ? MARK_NOTIFICATION_READ_MUTATION : MARK_NOTIFICATION_UNREAD_MUTATION,
+      variables: { markerVersion: marker.markerVersion },
+    })
+    if (errors?.length) throw new Error(errors[0].message)
+
+    const { readAt } = read ? data.markNotificationRead : data.markNotificationUnread
+    if (!marker.readAt !== !readAt) {
+      unreadNotificationCount.value = Math.max(0, unreadNotificationCount.value + (readAt ? -1 : 1))
+    }
+    markers.value = markers.value.map((m) =>
+      m.markerVersion === marker.markerVersion ? { ...m, readAt } : m
+    )
+  }
+
+  async function archive(marker: NotificationMarker) {
+    const { errors } = await apolloClient.mutate({
+      mutation: ARCHIVE_NOTIFICATION_MUTATION,
+      variables: { markerVersion: marker.markerVersion },
+    })
+    if (errors?.length) throw new Error(errors[0].message)
+
+    // Archived notifications no longer count as unread
+    if (!marker.readAt) {
+      unreadNotificationCount.value = Math.max(0, unreadNotificationCount.value - 1)
+    }
+    markers.value = markers.value.filter((m) => m.markerVersion !== marker.markerVersion)
+  }
+
+  async function fetchPreferences() {
+    try {
+      const { data } = await apolloClient.query({
+        query: NOTIFICATION_PREFERENCES_QUERY,
+        fetchPolicy: 'network-only',
+      })
+      preferences.value = data?.myNotificationPreferences ?? null
+    } catch (error: any) {
+      console.error('Failed to fetch notification preferences:', error)
+    }
+  }
+
+  // Only the given fields change
+  async function updatePreferences(input: NotificationPreferencesInput) {
+    const { data, errors } = await apolloClient.mutate({
+      mutation: UPDATE_NOTIFICATION_PREFERENCES_MUTATION,
+      variables: { input },
+    })
+    if (errors?.length) throw new Error(errors[0].message)
+
+    preferences.value = data.updateNotificationPreferences
+  }
+
+  async function muteAuthor(authorId: string, muted: boolean) {
+    if (!preferences.value) await fetchPreferences()
+    const current = preferences.value?.mutedAuthorIds ?? []
+    await updatePreferences({
+      mutedAuthorIds: muted
+        ? [...current, authorId]
+        : current.filter((id) => id !== authorId),
+    })
   }
 
   function clear() {
+    preferences.value = null
     markers.value = []
     lastSeenMarkerVersion.value = 0
     unreadNotificationCount.value = 0
@@ -433,6 +686,7 @@ export const useNotificationStore = defineStore('notifications', () => {
     unreadCount,
     unreadNotificationCount,
     hasNewNotifications,
+    preferences,
     lastSeenMarkerVersion,
     subscription,
     fetchUnreadMarkers,
@@ -444,6 +698,11 @@ export const useNotificationStore = defineStore('notifications', () => {
     unsubscribe,
     markAsSeen,
     markAllAsSeen,
+    setRead,
+    archive,
+    fetchPreferences,
+    updatePreferences,
+    muteAuthor,
     clear,
     debugSubscription, // Export debug function
   }
@@ -0,0 +1,113 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+import type { Blog } from '@/stores/blog'
+
+const SEARCH_BLOGS_QUERY = gql`
+  query SearchBlogs($query: String!, $first: Int, $after: String) {
+    searchBlogs(query: $query, first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          rank
+          titleHighlight
+          snippet
+          blog {
+            id
+            title
+            excerpt(length: 240)
+            createdAt
+            author {
+              id
+              username
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+`
+
+export interface BlogSearchResult {
+  rank: number
+  // HTML with matched terms wrapped in <mark>; everything else is escaped by the server
+  titleHighlight: string
+  snippet: string
+  blog: Blog
+}
+
+const PAGE_SIZE = 10
+
+export const useSearchStore = defineStore('search', () => {
+  const query = ref('')
+  const results = ref<BlogSearchResult[]>([])
+  const totalCount = ref(0)
+  const hasNextPage = ref(false)
+  const endCursor = ref<string | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  async function fetchPage(after: string | null) {
+    const { data } = await apolloClient.query({
+      query: SEARCH_BLOGS_QUERY,
+      variables: { query: query.value, first: PAGE_SIZE, after },
+      fetchPolicy: 'network-only'
+    })
+    const connection = data?.searchBlogs
+    endCursor.value = connection?.pageInfo.endCursor ?? null
+    hasNextPage.value = connection?.pageInfo.hasNextPage ?? false
+    totalCount.value = connection?.totalCount ?? 0
+    return connection
+      ? connection.edges.map((edge: { node: BlogSearchResult }) => edge.node)
+      : []
+  }
+
+  async function search(newQuery: string) {
+    query.value = newQuery.trim()
+    results.value = []
+    totalCount.value = 0
+    hasNextPage.value = false
+    if (!query.value) return
+
+    loading.value = true
+    error.value = null
+    try {
+      results.value = [...(await fetchPage(null))]
+    } catch (e: any) {
+      error.value = e.message ?? 'Search failed'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function fetchMore() {
+    if (!hasNextPage.value || loading.value) return
+
+    loading.value = true
+    error.value = null
+    try {
+      results.value = [...results.value, ...(await fetchPage(endCursor.value))]
+    } catch (e: any) {
+      error.value = e.message ?? 'Search failed'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    query,
+    results,
+    totalCount,
+    hasNextPage,
+    loading,
+    error,
+    search,
+    fetchMore
+  }
+})
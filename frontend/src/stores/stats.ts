@@ -0,0 +1,124 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+
+const RECORD_BLOG_VIEW_MUTATION = gql`
+  mutation RecordBlogView($blogId: ID!, $sessionId: String) {
+    recordBlogView(blogId: $blogId, sessionId: $sessionId)
+  }
+`
+
+const AUTHOR_STATS_QUERY = gql`
+  query AuthorStats($range: StatsRange!) {
+    authorStats(range: $range) {
+      range
+      totalViews
+      uniqueReaders
+      daily {
+        date
+        views
+        uniqueReaders
+      }
+      topPosts {
+        views
+        uniqueReaders
+        blog {
+          id
+          title
+          slug
+          wordCount
+          readingTimeMinutes
+          author {
+            id
+            username
+          }
+        }
+      }
+    }
+  }
+`
+
+export type StatsRange = 'LAST_7_DAYS' | 'LAST_30_DAYS' | 'LAST_90_DAYS'
+
+export interface DailyViews {
+  date: string
+  views: number
+  uniqueReaders: number
+}
+
+export interface PostViews {
+  views: number
+  uniqueReaders: number
+  blog: {
+    id: string
+    title: string
+    slug: string
+    wordCount: number
+    readingTimeMinutes: number
+    author: { id: string; username: string }
+  }
+}
+
+export interface AuthorStats {
+  range: StatsRange
+  totalViews: number
+  uniqueReaders: number
+  daily: DailyViews[]
+  topPosts: PostViews[]
+}
+
+const SESSION_KEY = 'viewSessionId'
+
+// Random id that lets the backend count signed-out readers once per day
+function viewSessionId() {
+  let sessionId = localStorage.getItem(SESSION_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    localStorage.setItem(SESSION_KEY, sessionId)
+  }
+  return sessionId
+}
+
+export const useStatsStore = defineStore('stats', () => {
+  const stats = ref<AuthorStats | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Fire and forget - a failed view count should never get in the reader's way
+  async function recordView(blogId: string) {
+    try {
+      await apolloClient.mutate({
+        mutation: RECORD_BLOG_VIEW_MUTATION,
+        variables: { blogId, sessionId: viewSessionId() }
+      })
+    } catch (e) {
+      console.error('Failed to record view:', e)
+    }
+  }
+
+  async function fetchAuthorStats(range: StatsRange) {
+    loading.value = true
+    error.value = null
+    try {
+      const { data } = await apolloClient.query({
+        query: AUTHOR_STATS_QUERY,
+        variables: { range },
+        fetchPolicy: 'network-only'
+      })
+      stats.value = data?.authorStats ?? null
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load stats'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    stats,
+    loading,
+    error,
+    recordView,
+    fetchAuthorStats
+  }
+})
@@ -0,0 +1,56 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+
+const TAG_CLOUD_QUERY = gql`
+  query TagCloud($limit: Int) {
+    tagCloud(limit: $limit) {
+      postCount
+      tag {
+        id
+        name
+      }
+    }
+  }
+`
+
+export interface Tag {
+  id: string
+  name: string
+}
+
+export interface TagCount {
+  tag: Tag
+  postCount: number
+}
+
+export const useTagStore = defineStore('tags', () => {
+  const tagCloud = ref<TagCount[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  async function fetchTagCloud(limit = 30) {
+    loading.value = true
+    error.value = null
+    try {
+      const { data } = await apolloClient.query({
+        query: TAG_CLOUD_QUERY,
+        variables: { limit },
+        fetchPolicy: 'network-only'
+      })
+      tagCloud.value = [...(data?.tagCloud ?? [])]
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to load tags'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    tagCloud,
+    loading,
+    error,
+    fetchTagCloud
+  }
+})
@@ -0,0 +1,119 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { apolloClient } from '@/apollo/client'
+import gql from 'graphql-tag'
+import { useBlogStore, type BlogStatus } from '@/stores/blog'
+
+const EXPORT_MY_BLOGS_QUERY = gql`
+  query ExportMyBlogs($format: BlogExportFormat!) {
+    exportMyBlogs(format: $format) {
+      filename
+      contentType
+      base64
+      postCount
+    }
+  }
+`
+
+// Sent as a GraphQL multipart request by the upload link
+const IMPORT_BLOGS_MUTATION = gql`
+  mutation ImportBlogs($file: Upload!, $dryRun: Boolean!) {
+    importBlogs(file: $file, dryRun: $dryRun) {
+      dryRun
+      items {
+        source
+        title
+        status
+        outcome
+        message
+      }
+    }
+  }
+`
+
+export type BlogExportFormat = 'MARKDOWN' | 'JSON'
+
+export type BlogImportOutcome = 'CREATED' | 'WOULD_CREATE' | 'DUPLICATE' | 'INVALID'
+
+export interface BlogImportItem {
+  source: string
+  title: string | null
+  status: BlogStatus | null
+  outcome: BlogImportOutcome
+  message: string | null
+}
+
+export interface BlogImportResult {
+  dryRun: boolean
+  items: BlogImportItem[]
+}
+
+// Hands a base64 payload to the browser as a file download
+function downloadBase64(base64: string, filename: string, contentType: string) {
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  const url = URL.createObjectURL(new Blob([bytes], { type: contentType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const useTransferStore = defineStore('transfer', () => {
+  const exporting = ref(false)
+  const importing = ref(false)
+  const error = ref<string | null>(null)
+
+  async function exportMyBlogs(format: BlogExportFormat) {
+    exporting.value = true
+    error.value = null
+    try {
+      const { data } = await apolloClient.query({
+        query: EXPORT_MY_BLOGS_QUERY,
+        variables: { format },
+        fetchPolicy: 'network-only'
+      })
+      const file = data.exportMyBlogs
+      downloadBase64(file.base64, file.filename, file.contentType)
+      return file.postCount as number
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to export blogs'
+      throw e
+    } finally {
+      exporting.value = false
+    }
+  }
+
+  // With dryRun nothing is created; the result previews what would happen to each post
+  async function importBlogs(file: File, dryRun: boolean) {
+    importing.value = true
+    error.value = null
+    try {
+      const { data, errors } = await apolloClient.mutate({
+        mutation: IMPORT_BLOGS_MUTATION,
+        variables: { file, dryRun }
+      })
+      if (errors?.length) {
+        throw new Error(errors[0].message)
+      }
+      if (!dryRun) {
+        // New posts may land anywhere in the sorted list - reload on the next visit
+        useBlogStore().blogs = []
+      }
+      return data.importBlogs as BlogImportResult
+    } catch (e: any) {
+      error.value = e.message ?? 'Failed to import blogs'
+      throw e
+    } finally {
+      importing.value = false
+    }
+  }
+
+  return {
+    exporting,
+    importing,
+    error,
+    exportMyBlogs,
+    importBlogs
+  }
+})